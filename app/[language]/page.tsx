@@ -0,0 +1,24 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import NewsFeed from "@/components/NewsFeed"
+import { getLanguages } from "@/lib/feed-registry"
+import { localeFor } from "@/lib/i18n"
+
+interface LanguagePageProps {
+  params: Promise<{ language: string }>
+}
+
+// Languages come from the feed registry, which can change at runtime through /api/feeds
+export const dynamic = "force-dynamic"
+
+export async function generateMetadata({ params }: LanguagePageProps): Promise<Metadata> {
+  const { language } = await params
+  return { title: `News Feed - ${localeFor(language).name}` }
+}
+
+export default async function LanguagePage({ params }: LanguagePageProps) {
+  const { language } = await params
+  if (!(await getLanguages()).includes(language)) notFound()
+
+  return <NewsFeed language={language} />
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AdminAuthError, requireAdmin } from "@/lib/admin"
+import { getAlert, getAlertMatches } from "@/lib/alerts"
+import { InvalidCursorError, paginate, timeKey } from "@/lib/cursor"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    requireAdmin(request)
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const limit = Number.parseInt(searchParams.get("limit") || "50")
+    const cursor = searchParams.get("cursor")
+
+    if (!(await getAlert(id))) {
+      return NextResponse.json({ error: `Alert ${id} not found` }, { status: 404 })
+    }
+
+    const page = paginate(await getAlertMatches(id), {
+      key: (match) => timeKey(match.matchedAt),
+      id: (match) => match.id,
+      order: "desc",
+      limit,
+      cursor,
+    })
+
+    return NextResponse.json({
+      matches: page.items,
+      hasMore: page.hasMore,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    })
+  } catch (error) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error("Error in alert matches API:", error)
+    return NextResponse.json({ error: "Failed to list alert matches" }, { status: 500 })
+  }
+}
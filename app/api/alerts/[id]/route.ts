@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AdminAuthError, requireAdmin } from "@/lib/admin"
+import { AlertError, deleteAlert, getAlert, redactAlert, updateAlert } from "@/lib/alerts"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AdminAuthError || error instanceof AlertError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  console.error("Error in alerts API:", error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    requireAdmin(request)
+    const { id } = await params
+    const alert = await getAlert(id)
+    if (!alert) {
+      return NextResponse.json({ error: `Alert ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json({ alert: redactAlert(alert) })
+  } catch (error) {
+    return errorResponse(error, "Failed to load alert")
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    requireAdmin(request)
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
+
+    const alert = await updateAlert(id, body)
+    return NextResponse.json({ alert: redactAlert(alert) })
+  } catch (error) {
+    return errorResponse(error, "Failed to update alert")
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    requireAdmin(request)
+    const { id } = await params
+    await deleteAlert(id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete alert")
+  }
+}
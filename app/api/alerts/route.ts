@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AdminAuthError, requireAdmin } from "@/lib/admin"
+import { AlertError, createAlert, listAlerts, redactAlert } from "@/lib/alerts"
+
+// Alerts are private to the admin: a webhook URL (Slack, Discord) is itself a credential
+export async function GET(request: NextRequest) {
+  try {
+    requireAdmin(request)
+    const alerts = await listAlerts()
+    return NextResponse.json({ alerts: alerts.map(redactAlert) })
+  } catch (error) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error in alerts API:", error)
+    return NextResponse.json({ error: "Failed to list alerts" }, { status: 500 })
+  }
+}
+
+// The response is the only place the signing secret is returned
+export async function POST(request: NextRequest) {
+  try {
+    requireAdmin(request)
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
+
+    const alert = await createAlert(body)
+    return NextResponse.json({ alert }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AdminAuthError || error instanceof AlertError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error in alerts API:", error)
+    return NextResponse.json({ error: "Failed to create alert" }, { status: 500 })
+  }
+}
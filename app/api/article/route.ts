@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ReaderError, readArticle } from "@/lib/reader"
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url).searchParams.get("url")
+  if (!url) {
+    return NextResponse.json({ error: "Missing url" }, { status: 400 })
+  }
+
+  try {
+    const article = await readArticle(url)
+    return NextResponse.json(article, {
+      headers: { "Cache-Control": "public, max-age=3600" },
+    })
+  } catch (error) {
+    if (error instanceof ReaderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Error in article API:", error)
+    return NextResponse.json({ error: "Failed to extract article" }, { status: 500 })
+  }
+}
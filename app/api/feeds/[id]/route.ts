@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AdminAuthError, requireAdmin } from "@/lib/admin"
+import { FeedRegistryError, deleteFeed, getFeed, updateFeed } from "@/lib/feed-registry"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof AdminAuthError || error instanceof FeedRegistryError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  console.error("Error in feeds API:", error)
+  return NextResponse.json({ error: fallback }, { status: 500 })
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const feed = await getFeed(id)
+    if (!feed) {
+      return NextResponse.json({ error: `Feed ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json({ feed })
+  } catch (error) {
+    return errorResponse(error, "Failed to load feed")
+  }
+}
+
+// Also used to disable a feed: PATCH { "enabled": false }
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    requireAdmin(request)
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
+
+    const feed = await updateFeed(id, body)
+    return NextResponse.json({ feed })
+  } catch (error) {
+    return errorResponse(error, "Failed to update feed")
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    requireAdmin(request)
+    const { id } = await params
+    await deleteFeed(id)
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, "Failed to delete feed")
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { getFeedHealth, healthState } from "@/lib/feed-health"
+import { listFeeds } from "@/lib/feed-registry"
+
+export async function GET() {
+  try {
+    const [feeds, health] = await Promise.all([listFeeds(), getFeedHealth()])
+
+    const report = feeds.map((feed) => ({
+      ...health[feed.id],
+      id: feed.id,
+      name: feed.name,
+      url: feed.url,
+      language: feed.language,
+      enabled: feed.enabled,
+      state: feed.enabled ? healthState(health[feed.id]) : "disabled",
+    }))
+
+    const summary: Record<string, number> = {}
+    report.forEach((entry) => (summary[entry.state] = (summary[entry.state] || 0) + 1))
+
+    return NextResponse.json({ summary, feeds: report })
+  } catch (error) {
+    console.error("Error in feed health API:", error)
+    return NextResponse.json({ error: "Failed to load feed health" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AdminAuthError, requireAdmin } from "@/lib/admin"
+import { FeedRegistryError, addFeed, listFeeds } from "@/lib/feed-registry"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const language = searchParams.get("language")
+
+    const feeds = await listFeeds()
+    return NextResponse.json({
+      feeds: language ? feeds.filter((feed) => feed.language === language) : feeds,
+    })
+  } catch (error) {
+    console.error("Error in feeds API:", error)
+    return NextResponse.json({ error: "Failed to list feeds" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    requireAdmin(request)
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
+
+    const { feed, validation } = await addFeed(body)
+    return NextResponse.json({ feed, validation }, { status: 201 })
+  } catch (error) {
+    if (error instanceof AdminAuthError || error instanceof FeedRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error in feeds API:", error)
+    return NextResponse.json({ error: "Failed to add feed" }, { status: 500 })
+  }
+}
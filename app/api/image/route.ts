@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { IMAGE_SIZES, ImageProxyError, fallbackImage, proxyFavicon, proxyImage } from "@/lib/image-proxy"
+import type { ImageSize } from "@/lib/image-url"
+
+function isImageSize(size: string | null): size is ImageSize {
+  return !!size && Object.prototype.hasOwnProperty.call(IMAGE_SIZES, size)
+}
+
+// Every failure answers with the same placeholder so cards never show a broken image; the
+// marker header tells the service worker not to keep it in place of the real image
+async function fallback(status = 200) {
+  return new NextResponse(new Uint8Array(await fallbackImage()), {
+    status,
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": "public, max-age=300",
+      "X-Image-Fallback": "1",
+    },
+  })
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const url = searchParams.get("url")
+  const favicon = searchParams.get("favicon")
+  const requestedSize = searchParams.get("size")
+  const size: ImageSize = isImageSize(requestedSize) ? requestedSize : "card"
+
+  if (!url && !favicon) return fallback()
+
+  try {
+    const image = favicon ? await proxyFavicon(favicon) : await proxyImage(url!, size)
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        "Content-Type": "image/webp",
+        "Cache-Control": "public, max-age=86400, stale-while-revalidate=604800",
+      },
+    })
+  } catch (error) {
+    if (error instanceof ImageProxyError) return fallback(error.status === 403 ? 403 : 200)
+    console.error("Error in image API:", error)
+    return fallback()
+  }
+}
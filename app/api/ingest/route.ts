@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AdminAuthError, requireAdmin } from "@/lib/admin"
+import { ingestAll } from "@/lib/ingest"
+
+// Lets an external cron (e.g. on serverless hosts without a long-lived process) trigger ingestion
+export async function POST(request: NextRequest) {
+  try {
+    requireAdmin(request)
+    const added = await ingestAll()
+    return NextResponse.json({ added })
+  } catch (error) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error in ingest API:", error)
+    return NextResponse.json({ error: "Failed to ingest feeds" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { PRODUCT_ID_PATTERN, getPriceHistory, summarizeHistory } from "@/lib/price-history"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const days = Number.parseInt(new URL(request.url).searchParams.get("days") || "0")
+
+    const history = PRODUCT_ID_PATTERN.test(id) ? await getPriceHistory(id) : null
+    if (!history) {
+      return NextResponse.json({ error: `No price history for product ${id}` }, { status: 404 })
+    }
+
+    const observations =
+      days > 0
+        ? history.observations.filter((observation) => Date.now() - Date.parse(observation.observedAt) <= days * 24 * 60 * 60 * 1000)
+        : history.observations
+
+    return NextResponse.json({
+      ...history,
+      observations,
+      summary: summarizeHistory(history.observations),
+    })
+  } catch (error) {
+    console.error("Error in product history API:", error)
+    return NextResponse.json({ error: "Failed to load price history" }, { status: 500 })
+  }
+}
@@ -1,140 +1,73 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { parseString } from "xml2js"
-import { promisify } from "util"
-import axios from "axios"
-import * as cheerio from "cheerio"
 import pLimit from "p-limit"
-
-const parseXML = promisify(parseString)
+import { InvalidCursorError, paginate } from "@/lib/cursor"
+import { cachedFetch } from "@/lib/http-cache"
+import { recordProductImageHosts } from "@/lib/image-proxy"
+import { getPriceTrend, recordPrices } from "@/lib/price-history"
+import { parsePrice } from "@/lib/prices"
+import {
+  extractProduct,
+  extractorFor,
+  type ExtractorConfig,
+  type ExtractorConfigs,
+  type ProductSource,
+} from "@/lib/product-extractor"
+import { filterProducts, isProductSort, sortOptions } from "@/lib/product-query"
+import { readSitemap, type SitemapEntry } from "@/lib/sitemap"
+import type { Product } from "@/lib/types"
 
 // Limit concurrent requests to avoid overwhelming servers
 const limit = pLimit(5)
 
-export interface Product {
-  id: string
-  title: string
-  description: string
-  image: string
-  price: string
-  url: string
-  domain: string
+export type { Product }
+
+const REQUEST_TIMEOUT_MS = 10000
+const REQUEST_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.5",
+  "Upgrade-Insecure-Requests": "1",
 }
 
-interface ProductSource {
-  sitemap: string
-  xpath: string
-  domain: string
+// Sitemaps and product pages share the source's minimum refresh interval
+async function fetchPage(url: string, source: ProductSource): Promise<string> {
+  const response = await cachedFetch(url, {
+    headers: REQUEST_HEADERS,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+    minRefreshMs: (source.minRefreshMinutes || 0) * 60 * 1000,
+  })
+  if (!response.ok) throw new Error(`Request failed with status ${response.status}`)
+  return response.text()
 }
 
-// Configure axios with better settings
-const axiosInstance = axios.create({
-  timeout: 10000,
-  headers: {
-    "User-Agent":
-      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-    Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-    "Accept-Language": "en-US,en;q=0.5",
-    "Accept-Encoding": "gzip, deflate, br",
-    Connection: "keep-alive",
-    "Upgrade-Insecure-Requests": "1",
-  },
-})
-
-async function fetchSitemapFast(sitemapUrl: string): Promise<string[]> {
+// Products from the most recently changed pages first
+async function fetchSitemapFast(source: ProductSource): Promise<SitemapEntry[]> {
   try {
-    const response = await axiosInstance.get(sitemapUrl)
-    const result = (await parseXML(response.data)) as any
-    const urls: string[] = []
-
-    if (result?.urlset?.url) {
-      result.urlset.url.forEach((urlEntry: any) => {
-        if (urlEntry.loc && urlEntry.loc[0]) {
-          urls.push(urlEntry.loc[0])
-        }
-      })
-    }
-
-    // Increase limit for more products
-    return urls.slice(0, 50)
+    const entries = await readSitemap(source.sitemap, {
+      headers: REQUEST_HEADERS,
+      minRefreshMs: (source.minRefreshMinutes || 0) * 60 * 1000,
+      maxDepth: source.maxSitemapDepth,
+      maxUrls: 50,
+    })
+    return entries
   } catch (error) {
-    console.error(`Error fetching sitemap ${sitemapUrl}:`, error)
+    console.error(`Error fetching sitemap ${source.sitemap}:`, error)
     return []
   }
 }
 
-async function scrapeProductDataFast(url: string, domain: string): Promise<Product | null> {
+async function scrapeProductDataFast(
+  entry: SitemapEntry,
+  source: ProductSource,
+  extractor: ExtractorConfig
+): Promise<Product | null> {
   return limit(async () => {
     try {
-      const response = await axiosInstance.get(url)
-      const $ = cheerio.load(response.data)
-
-      // Extract Open Graph data using Cheerio (much faster than regex)
-      const ogTitle =
-        $('meta[property="og:title"]').attr("content") ||
-        $('meta[name="og:title"]').attr("content") ||
-        $("title").text() ||
-        ""
-
-      const ogDescription =
-        $('meta[property="og:description"]').attr("content") ||
-        $('meta[name="og:description"]').attr("content") ||
-        $('meta[name="description"]').attr("content") ||
-        ""
-
-      const ogImage = $('meta[property="og:image"]').attr("content") || $('meta[name="og:image"]').attr("content") || ""
-
-      // Enhanced price extraction with multiple selectors
-      let price = "Price not available"
-
-      if (domain.includes("pickaboo")) {
-        // Try multiple price selectors for Pickaboo
-        const priceSelectors = [
-          ".price-current",
-          ".product-price",
-          '[class*="price"]',
-          'h2:contains("৳")',
-          'span:contains("৳")',
-        ]
-
-        for (const selector of priceSelectors) {
-          const priceText = $(selector).first().text().trim()
-          if (priceText && (priceText.includes("৳") || priceText.includes("Tk"))) {
-            price = priceText.match(/৳\s*[\d,]+|Tk\s*[\d,]+/)?.[0] || priceText
-            break
-          }
-        }
-      } else if (domain.includes("daraz")) {
-        // Try multiple price selectors for Daraz
-        const priceSelectors = [
-          '[data-testid="price-current"]',
-          ".pdp-price",
-          "#module_product_price_1 span",
-          '[class*="price"]',
-          'span:contains("৳")',
-        ]
-
-        for (const selector of priceSelectors) {
-          const priceText = $(selector).first().text().trim()
-          if (priceText && (priceText.includes("৳") || priceText.includes("Tk"))) {
-            price = priceText.match(/৳\s*[\d,]+|Tk\s*[\d,]+/)?.[0] || priceText
-            break
-          }
-        }
-      }
-
-      if (!ogTitle.trim()) return null
-
-      return {
-        id: Buffer.from(url).toString("base64").slice(0, 16),
-        title: ogTitle.substring(0, 100),
-        description: ogDescription.substring(0, 200),
-        image: ogImage.startsWith("http") ? ogImage : ogImage ? `https://${domain}${ogImage}` : "",
-        price,
-        url,
-        domain,
-      }
+      const product = extractProduct(await fetchPage(entry.loc, source), entry.loc, extractor, source.domain)
+      return product && entry.lastmod ? { ...product, updatedAt: new Date(entry.lastmod).toISOString() } : product
     } catch (error) {
-      console.error(`Error scraping product ${url}:`, error)
+      console.error(`Error scraping product ${entry.loc}:`, error)
       return null
     }
   })
@@ -145,20 +78,37 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const offset = Number.parseInt(searchParams.get("offset") || "0")
     const limit = Number.parseInt(searchParams.get("limit") || "20")
+    const cursor = searchParams.get("cursor")
+    const sort = searchParams.get("sort") || "title"
+    const [minPrice, maxPrice] = ["minPrice", "maxPrice"].map((name) => {
+      const value = searchParams.get(name)?.trim()
+      if (!value) return null
+      // Plain numbers, or prices as displayed ("৳ ১,২০০")
+      return Number.isFinite(Number(value)) ? Number(value) : (parsePrice(value)?.amount ?? NaN)
+    })
+
+    if (!isProductSort(sort)) {
+      return NextResponse.json({ error: `Unsupported sort: ${sort}` }, { status: 400 })
+    }
+    if (Number.isNaN(minPrice) || Number.isNaN(maxPrice)) {
+      return NextResponse.json({ error: "minPrice and maxPrice must be amounts" }, { status: 400 })
+    }
 
     const productData = await import("../../../data/product.json")
     const sources: ProductSource[] = productData.urls
+    const extractors = productData.extractors as ExtractorConfigs
 
     const allProducts: Product[] = []
 
     // Process all sitemaps concurrently
     const sitemapPromises = sources.map(async (source) => {
       console.log(`Processing sitemap: ${source.sitemap}`)
-      const urls = await fetchSitemapFast(source.sitemap)
-      console.log(`Found ${urls.length} URLs in sitemap`)
+      const entries = await fetchSitemapFast(source)
+      console.log(`Found ${entries.length} URLs in sitemap`)
 
       // Process more URLs concurrently (increased from 5 to 15)
-      const productPromises = urls.slice(0, 15).map((url) => scrapeProductDataFast(url, source.domain))
+      const extractor = extractorFor(source, extractors)
+      const productPromises = entries.slice(0, 15).map((entry) => scrapeProductDataFast(entry, source, extractor))
 
       const products = await Promise.all(productPromises)
       return products.filter((p): p is Product => p !== null)
@@ -167,17 +117,42 @@ export async function GET(request: NextRequest) {
     const allResults = await Promise.all(sitemapPromises)
     allResults.forEach((products) => allProducts.push(...products))
 
-    // Sort products by title
-    allProducts.sort((a, b) => a.title.localeCompare(b.title))
+    await recordPrices(allProducts).catch((error) => console.error("Error recording product prices:", error))
+    await recordProductImageHosts(allProducts).catch((error) => console.error("Error recording product image hosts:", error))
+
+    const matching = filterProducts(allProducts, {
+      q: searchParams.get("q"),
+      domain: searchParams.get("domain"),
+      minPrice,
+      maxPrice,
+    })
+    const page = paginate(matching, {
+      ...sortOptions(sort),
+      limit,
+      cursor,
+      offset,
+    })
 
-    const paginatedProducts = allProducts.slice(offset, offset + limit)
+    // Sent with the listing so cards don't each have to ask for their history
+    const products = await Promise.all(
+      page.items.map(async (product) => {
+        const priceTrend = await getPriceTrend(product.id)
+        return priceTrend ? { ...product, priceTrend } : product
+      })
+    )
 
     return NextResponse.json({
-      products: paginatedProducts,
-      hasMore: offset + limit < allProducts.length,
-      total: allProducts.length,
+      products,
+      hasMore: page.hasMore,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      domains: [...new Set(sources.map((source) => source.domain))],
     })
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error("Error in product API:", error)
     return NextResponse.json({ error: "Failed to fetch products" }, { status: 500 })
   }
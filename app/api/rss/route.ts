@@ -1,103 +1,16 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { parseString } from "xml2js"
-import { promisify } from "util"
-
-const parseXML = promisify(parseString)
-
-export interface NewsItem {
-  title: string
-  link: string
-  description: string
-  pubDate: string
-  guid: string
-  image?: string
-  domain: string
-  needsImage?: boolean
-}
-
-async function fetchOGImageFromPage(link: string): Promise<string | null> {
-  try {
-    const response = await fetch(link, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)",
-      },
-      cache: "no-store",
-    })
-
-    if (!response.ok) return null
-
-    const html = await response.text()
-    const ogMatch = html.match(/<meta[^>]+property=["']og:image["'][^>]+content=["']([^"']+)["']/i)
-    return ogMatch?.[1] || null
-  } catch {
-    return null
-  }
-}
-
-async function fetchRSSFeed(url: string): Promise<NewsItem[]> {
-  try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)",
-      },
-    })
-
-    if (!response.ok) {
-      console.error(`Failed to fetch ${url}: ${response.status}`)
-      return []
-    }
-
-    const xmlText = await response.text()
-    const result = (await parseXML(xmlText)) as any
-
-    const items = result?.rss?.channel?.[0]?.item || []
-    const domain = new URL(url).hostname
-
-    const newsItems: NewsItem[] = items.map((item: any) => {
-      const title = item.title?.[0] || ""
-      const link = item.link?.[0] || ""
-      const pubDate = item.pubDate?.[0] || ""
-      const guid = item.guid?.[0]?._ || item.guid?.[0] || ""
-
-      const contentEncoded = item["content:encoded"]?.[0]?.trim()
-      const description = contentEncoded || item.description?.[0] || ""
-
-      const image = item["media:content"]?.[0]?.$?.url || ""
-      const needsImage = !image && !!link
-
-      return {
-        title,
-        link,
-        description,
-        pubDate,
-        guid,
-        image,
-        domain,
-        needsImage,
-      }
-    })
-
-    return newsItems.filter((item: NewsItem) => item.title && item.link)
-  } catch (error) {
-    console.error(`Error fetching RSS feed ${url}:`, error)
-    return []
-  }
-}
-
-async function enrichItemsWithImages(items: NewsItem[]): Promise<NewsItem[]> {
-  return Promise.all(
-    items.map(async (item) => {
-      if (!item.needsImage || !item.link) return item
-
-      const image = await fetchOGImageFromPage(item.link)
-      return {
-        ...item,
-        image: image || "",
-        needsImage: false,
-      }
-    })
-  )
-}
+import { updateArticles } from "@/lib/article-store"
+import { isCategory } from "@/lib/categories"
+import { InvalidCursorError } from "@/lib/cursor"
+import { feedArticles, ingestCursor, pageFeed } from "@/lib/feed-items"
+import { OUTPUT_FORMATS, isOutputFormat, serializeFeed } from "@/lib/feed-writer"
+import { getLanguages } from "@/lib/feed-registry"
+import { languageCode } from "@/lib/i18n"
+import { enrichItemsWithImages } from "@/lib/images"
+import { ensureFresh } from "@/lib/ingest"
+import type { NewsItem } from "@/lib/types"
+
+export type { NewsItem }
 
 export async function GET(request: NextRequest) {
   try {
@@ -105,39 +18,62 @@ export async function GET(request: NextRequest) {
     const offset = Number.parseInt(searchParams.get("offset") || "0")
     const limit = Number.parseInt(searchParams.get("limit") || "30")
     const language = searchParams.get("language") || "bangla"
+    const cursor = searchParams.get("cursor")
+    const since = searchParams.get("since")
+    const cluster = searchParams.get("cluster") !== "false"
+    const format = searchParams.get("format")
+    const category = searchParams.get("category")
+
+    if (format && !isOutputFormat(format)) {
+      return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 })
+    }
 
-    const urlsData = await import("@/data/url.json")
-    const feeds = urlsData.feeds
+    if (category && !isCategory(category)) {
+      return NextResponse.json({ error: `Unknown category: ${category}` }, { status: 400 })
+    }
 
-    // Filter feeds by language
-    const languageFeeds = feeds.find((feed: any) => feed.language === language)?.urls || []
-    if (languageFeeds.length === 0) {
-      return NextResponse.json({ items: [], hasMore: false, total: 0 })
+    if (!(await getLanguages()).includes(language)) {
+      return NextResponse.json({ items: [], hasMore: false, total: 0, nextCursor: null, sinceCursor: null, ingestCursor: null })
     }
 
-    const allFeeds = await Promise.all(languageFeeds.map(fetchRSSFeed))
+    await ensureFresh(language)
 
-    let allItems = allFeeds
-      .flat()
-      .filter((item) => item.pubDate)
-      .sort((a, b) => {
-        const dateA = new Date(a.pubDate).getTime()
-        const dateB = new Date(b.pubDate).getTime()
-        if (isNaN(dateA) && isNaN(dateB)) return 0
-        if (isNaN(dateA)) return 1
-        if (isNaN(dateB)) return -1
-        return dateB - dateA
-      })
+    const allItems = await feedArticles(language, { cluster, category })
+    const page = pageFeed(allItems, { limit, cursor, since, offset })
 
-    const paginatedItems = allItems.slice(offset, offset + limit)
+    const paginatedItems = page.items
     const enrichedItems = await enrichItemsWithImages(paginatedItems)
+    await updateArticles(
+      language,
+      enrichedItems.filter((item, index) => item !== paginatedItems[index])
+    )
+
+    if (isOutputFormat(format)) {
+      const origin = new URL(request.url).origin
+      const body = serializeFeed(format, enrichedItems, {
+        title: category ? `News Feed (${language}, ${category})` : `News Feed (${language})`,
+        description: `Latest ${language} news aggregated from ${new Set(allItems.map((item) => item.domain)).size} sources`,
+        siteUrl: origin,
+        feedUrl: request.url,
+        language: languageCode(language),
+      })
+      return new NextResponse(body, { headers: { "Content-Type": OUTPUT_FORMATS[format] } })
+    }
 
     return NextResponse.json({
       items: enrichedItems,
-      hasMore: offset + limit < allItems.length,
-      total: allItems.length,
+      hasMore: page.hasMore,
+      total: page.total,
+      nextCursor: page.nextCursor,
+      sinceCursor: page.sinceCursor,
+      // Where /api/rss/stream should start announcing newly ingested articles
+      ingestCursor: ingestCursor(allItems),
     })
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
     console.error("Error in RSS API:", error)
     return NextResponse.json({ error: "Failed to fetch RSS feeds" }, { status: 500 })
   }
@@ -0,0 +1,116 @@
+import type { NextRequest } from "next/server"
+import { getLastIngest } from "@/lib/article-store"
+import { isCategory } from "@/lib/categories"
+import { InvalidCursorError, decodeCursor } from "@/lib/cursor"
+import { feedArticles, ingestCursor, ingestedSince } from "@/lib/feed-items"
+import { getLanguages } from "@/lib/feed-registry"
+
+export const dynamic = "force-dynamic"
+
+// The scheduler may run in another worker, so watch the store's ingest stamp rather than an in-process event
+const POLL_INTERVAL_MS = 15 * 1000
+// Keeps proxies from closing an idle connection
+const HEARTBEAT_INTERVAL_MS = 25 * 1000
+const MAX_ITEMS_PER_EVENT = 100
+
+/**
+ * Server-sent events with the articles ingested since `since` (the
+ * `ingestCursor` of an /api/rss response). Each `items` event carries up to
+ * MAX_ITEMS_PER_EVENT new articles, newest first, and the cursor to resume
+ * from after a reconnect; larger batches are split over several events.
+ * Articles are announced by when they were stored, not when they were
+ * published, so a late-ingested older story is still pushed.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const language = searchParams.get("language") || "bangla"
+  const category = searchParams.get("category")
+  const cluster = searchParams.get("cluster") !== "false"
+  // EventSource resends the last event id when it reconnects
+  let since = request.headers.get("last-event-id") || searchParams.get("since")
+
+  if (category && !isCategory(category)) {
+    return Response.json({ error: `Unknown category: ${category}` }, { status: 400 })
+  }
+  if (!(await getLanguages()).includes(language)) {
+    return Response.json({ error: `Unknown language: ${language}` }, { status: 404 })
+  }
+  try {
+    if (since) decodeCursor(since)
+  } catch (error) {
+    if (error instanceof InvalidCursorError) return Response.json({ error: error.message }, { status: 400 })
+    throw error
+  }
+
+  const encoder = new TextEncoder()
+  let pollTimer: ReturnType<typeof setInterval> | undefined
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      let lastIngest: number | null = null
+
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          close()
+        }
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearInterval(pollTimer)
+        clearInterval(heartbeatTimer)
+        try {
+          controller.close()
+        } catch {}
+      }
+
+      const poll = async () => {
+        const ingestedAt = (await getLastIngest(language))?.getTime() ?? 0
+        if (ingestedAt === lastIngest) return
+        lastIngest = ingestedAt
+
+        const articles = await feedArticles(language, { cluster, category })
+        // Without a starting point the first poll only establishes one; with one it catches up on anything missed
+        if (!since) {
+          since = ingestCursor(articles)
+          return
+        }
+        // Oldest first, so each event's id is a safe place to resume from
+        for (let more = true; more && !closed; ) {
+          const page = ingestedSince(articles, { limit: MAX_ITEMS_PER_EVENT, since })
+          if (!page.items.length) break
+          since = page.sinceCursor
+          more = page.hasMore
+          send(`id: ${since}\nevent: items\ndata: ${JSON.stringify({ items: page.items, sinceCursor: since })}\n\n`)
+        }
+      }
+
+      request.signal.addEventListener("abort", close)
+      send(`retry: ${POLL_INTERVAL_MS}\n\n`)
+      pollTimer = setInterval(() => {
+        poll().catch((error) => console.error("Error in RSS stream:", error))
+      }, POLL_INTERVAL_MS)
+      heartbeatTimer = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS)
+      await poll().catch((error) => console.error("Error in RSS stream:", error))
+    },
+    cancel() {
+      clearInterval(pollTimer)
+      clearInterval(heartbeatTimer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getArticles, withISODate, type StoredArticle } from "@/lib/article-store"
+import { getLanguages } from "@/lib/feed-registry"
+import { ensureFresh } from "@/lib/ingest"
+import { ensureSanitized } from "@/lib/sanitize"
+import { buildIndex, search, type SearchIndex } from "@/lib/search"
+
+// Rebuilt only when the store hands back a new array, i.e. after an ingest
+const indexCache = new WeakMap<StoredArticle[], SearchIndex>()
+
+function indexFor(articles: StoredArticle[]): SearchIndex {
+  let index = indexCache.get(articles)
+  if (!index) {
+    index = buildIndex(articles)
+    indexCache.set(articles, index)
+  }
+  return index
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get("q")?.trim() || ""
+    const language = searchParams.get("language")
+    const offset = Number.parseInt(searchParams.get("offset") || "0")
+    const limit = Number.parseInt(searchParams.get("limit") || "20")
+    const from = parseDate(searchParams.get("from"))
+    const to = parseDate(searchParams.get("to"))
+
+    if (!query) {
+      return NextResponse.json({ error: "Missing search query" }, { status: 400 })
+    }
+
+    const allLanguages = await getLanguages()
+    const languages = language ? allLanguages.filter((l) => l === language) : allLanguages
+
+    const results = await Promise.all(
+      languages.map(async (lang) => {
+        await ensureFresh(lang)
+        return search(indexFor(await getArticles(lang)), query, { from, to })
+      })
+    )
+    const hits = results.flat().sort((a, b) => b.score - a.score)
+
+    return NextResponse.json({
+      items: hits.slice(offset, offset + limit).map((hit) => ({ ...hit, item: ensureSanitized(withISODate(hit.item)) })),
+      hasMore: offset + limit < hits.length,
+      total: hits.length,
+    })
+  } catch (error) {
+    console.error("Error in search API:", error)
+    return NextResponse.json({ error: "Failed to search news" }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { SYNC_CODE_PATTERN, getSyncedState, mergeSyncedState } from "@/lib/reading-sync"
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    if (!SYNC_CODE_PATTERN.test(code)) {
+      return NextResponse.json({ error: "Invalid sync code" }, { status: 400 })
+    }
+    return NextResponse.json({ state: await getSyncedState(code) })
+  } catch (error) {
+    console.error("Error in sync API:", error)
+    return NextResponse.json({ error: "Failed to load synced state" }, { status: 500 })
+  }
+}
+
+// Browsers send their whole state; the response is the merge of every device's copy
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    if (!SYNC_CODE_PATTERN.test(code)) {
+      return NextResponse.json({ error: "Invalid sync code" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 })
+    }
+
+    return NextResponse.json({ state: await mergeSyncedState(code, body.state) })
+  } catch (error) {
+    console.error("Error in sync API:", error)
+    return NextResponse.json({ error: "Failed to sync state" }, { status: 500 })
+  }
+}
@@ -2,6 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { parseString } from 'xml2js'
 import { promisify } from 'util'
+import { InvalidCursorError, paginate, timeKey } from '@/lib/cursor'
+import { cachedFetch } from '@/lib/http-cache'
 
 const parseXML = promisify(parseString)
 
@@ -10,21 +12,23 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const offset = Number(searchParams.get("offset") || 0)
     const limit = Number(searchParams.get("limit") || 30)
+    const cursor = searchParams.get("cursor")
+    const since = searchParams.get("since")
 
     // Import channel IDs from your JSON file
-    const { default: { urls: channelIds } } = await import('@/data/videos.json')
+    const { default: { urls: channelIds, minRefreshMinutes } } = await import('@/data/videos.json')
 
     // Fetch all videos from all channels
     const allVideos = await Promise.all(
       channelIds.map(async (channelId: string) => {
         try {
-          const response = await fetch(
+          const response = await cachedFetch(
             `https://www.youtube.com/feeds/videos.xml?channel_id=${channelId}`,
-            { next: { revalidate: 3600 } } // Cache for 1 hour
+            { minRefreshMs: minRefreshMinutes * 60 * 1000 }
           )
           if (!response.ok) return []
           
-          const xmlText = await response.text()
+          const xmlText = response.text()
           const result = await parseXML(xmlText) as any
           
           return (result.feed.entry || []).map((entry: any) => ({
@@ -43,22 +47,23 @@ export async function GET(request: NextRequest) {
       })
     )
 
-    // Flatten and sort all videos by publish date (newest first)
-    const sortedVideos = allVideos.flat().sort((a, b) => 
-      new Date(b.published).getTime() - new Date(a.published).getTime()
-    )
-
-    // Apply pagination
-    const paginatedVideos = sortedVideos.slice(offset, offset + limit)
-    const hasMore = offset + limit < sortedVideos.length
-
-    return NextResponse.json({
-      items: paginatedVideos,
-      hasMore,
-      total: sortedVideos.length
+    // Newest first, with the video id breaking ties so cursors stay stable
+    const page = paginate(allVideos.flat(), {
+      key: (video: any) => timeKey(video.published),
+      id: (video: any) => video.videoId,
+      order: 'desc',
+      limit,
+      cursor,
+      since,
+      offset,
     })
 
+    return NextResponse.json(page)
+
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error in videos API:', error)
     return NextResponse.json(
       { error: 'Failed to fetch videos' }, 
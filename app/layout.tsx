@@ -1,46 +1,62 @@
 import type { Metadata } from "next";
+import { headers } from "next/headers";
 import "./globals.css";
 import Link from "next/link";
+import SearchBox from "@/components/SearchBox";
+import ServiceWorker from "@/components/ServiceWorker";
+import { getLanguages } from "@/lib/feed-registry";
+import { localeFor } from "@/lib/i18n";
 
 export const metadata: Metadata = {
   title: "Create Next App",
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const languages = await getLanguages();
+  const pathname = (await headers()).get("x-pathname") || "/";
+  const current = pathname.split("/")[1];
+  const lang = languages.includes(current) ? localeFor(current).code : "en";
+
   return (
-    <html lang="en">
+    <html lang={lang}>
       <body className="bg-gray-200">
         <header>
           <div className="flex items-center justify-between max-w-4xl mx-auto py-4 px-2 md:px-0">
             <h1 className="text-2xl font-bold text-gray-900">News Feed</h1>
             <div className="flex items-center gap-2">
+              <SearchBox />
+              {languages.map((language) => (
+                <Link
+                  key={language}
+                  href={`/${language}`}
+                  lang={localeFor(language).code}
+                  className="bg-white px-2 text-black"
+                >
+                  {localeFor(language).name}
+                </Link>
+              ))}
               <Link
-                href="/"
-                className="bg-white px-2 text-black"
-              >
-                Bangla
-              </Link>
-              <Link
-                href="/english"
+                href="/videos"
                 className="bg-white px-2 text-black"
               >
-                English
+                Videos
               </Link>
               <Link
-                href="/videos"
+                href="/saved"
                 className="bg-white px-2 text-black"
               >
-                Videos
+                Saved
               </Link>
             </div>
           </div>
         </header>
         {children}
+        <ServiceWorker />
       </body>
     </html>
   );
@@ -0,0 +1,17 @@
+import type { MetadataRoute } from "next"
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "News Feed",
+    short_name: "News",
+    description: "Bangla and English news from many outlets in one feed",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#e5e7eb",
+    theme_color: "#2563eb",
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "maskable" },
+    ],
+  }
+}
@@ -2,33 +2,146 @@
 
 import { useState, useEffect, useCallback } from "react"
 import type { Product } from "../api/product/route"
+import { faviconUrl, proxiedImage } from "@/lib/image-url"
+import { formatPrice } from "@/lib/prices"
+import type { ProductSort } from "@/lib/product-query"
 
 interface ProductCardProps {
   product: Product
 }
 
-function ProductCard({ product }: ProductCardProps) {
-  const getFaviconUrl = (domain: string) => {
-    return `https://www.google.com/s2/favicons?domain=${domain}&sz=32`
+interface ProductFilters {
+  q: string
+  domain: string
+  minPrice: string
+  maxPrice: string
+  sort: ProductSort
+}
+
+const DEFAULT_FILTERS: ProductFilters = { q: "", domain: "", minPrice: "", maxPrice: "", sort: "title" }
+
+const SORT_LABELS: Record<ProductSort, string> = {
+  title: "Title",
+  price_asc: "Price: low to high",
+  price_desc: "Price: high to low",
+  newest: "Recently updated",
+}
+
+interface FilterBarProps {
+  filters: ProductFilters
+  domains: string[]
+  onChange: (filters: ProductFilters) => void
+}
+
+// Text and price fields apply on submit; the selects apply straight away
+function FilterBar({ filters, domains, onChange }: FilterBarProps) {
+  const [draft, setDraft] = useState(filters)
+
+  useEffect(() => {
+    setDraft(filters)
+  }, [filters])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onChange(draft)
   }
 
+  const inputClass = "border px-2 py-1 rounded text-sm bg-white"
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 mb-6">
+      <input
+        type="search"
+        value={draft.q}
+        onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+        placeholder="Search products"
+        className={`${inputClass} flex-1 min-w-[10rem]`}
+      />
+      <select
+        value={filters.domain}
+        onChange={(e) => onChange({ ...draft, domain: e.target.value })}
+        className={inputClass}
+      >
+        <option value="">All stores</option>
+        {domains.map((domain) => (
+          <option key={domain} value={domain}>
+            {domain}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min="0"
+        value={draft.minPrice}
+        onChange={(e) => setDraft({ ...draft, minPrice: e.target.value })}
+        placeholder="Min ৳"
+        className={`${inputClass} w-24`}
+      />
+      <input
+        type="number"
+        min="0"
+        value={draft.maxPrice}
+        onChange={(e) => setDraft({ ...draft, maxPrice: e.target.value })}
+        placeholder="Max ৳"
+        className={`${inputClass} w-24`}
+      />
+      <select
+        value={filters.sort}
+        onChange={(e) => onChange({ ...draft, sort: e.target.value as ProductSort })}
+        className={inputClass}
+      >
+        {Object.entries(SORT_LABELS).map(([sort, label]) => (
+          <option key={sort} value={sort}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <button type="submit" className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700">
+        Apply
+      </button>
+      <button type="button" onClick={() => onChange(DEFAULT_FILTERS)} className="px-3 py-1 text-sm text-gray-600 hover:underline">
+        Reset
+      </button>
+    </form>
+  )
+}
+
+function PriceSparkline({ amounts }: { amounts: number[] }) {
+  const width = 120
+  const height = 28
+  const min = Math.min(...amounts)
+  const range = Math.max(...amounts) - min || 1
+  const points = amounts
+    .map((amount, index) => {
+      const x = (index / (amounts.length - 1)) * width
+      const y = height - 2 - ((amount - min) / range) * (height - 4)
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(" ")
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-7" preserveAspectRatio="none" aria-label="Price history">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+    </svg>
+  )
+}
+
+function ProductCard({ product }: ProductCardProps) {
+  const trend = product.priceTrend
+
   return (
     <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300">
       {/* Product Image */}
       <div className="aspect-square relative overflow-hidden">
         <img
-          src={product.image || "/placeholder.svg?height=300&width=300"}
+          src={proxiedImage(product.image, "square")}
           alt={product.title}
           className="w-full h-full object-cover hover:scale-105 transition-transform duration-300"
-          onError={(e) => {
-            const target = e.target as HTMLImageElement
-            target.src = "/placeholder.svg?height=300&width=300"
-          }}
         />
         {/* Domain Badge */}
         <div className="absolute top-2 left-2 bg-white/90 backdrop-blur-sm rounded-full px-2 py-1 flex items-center gap-1">
           <img
-            src={getFaviconUrl(product.domain) || "/placeholder.svg"}
+            src={faviconUrl(product.domain)}
             alt={`${product.domain} favicon`}
             className="w-4 h-4"
             onError={(e) => {
@@ -40,6 +153,11 @@ function ProductCard({ product }: ProductCardProps) {
             {product.domain.replace("www.", "").split(".")[0]}
           </span>
         </div>
+        {trend?.summary.isLowest30Days && (
+          <div className="absolute top-2 right-2 bg-green-600 text-white rounded-full px-2 py-1 text-xs font-medium">
+            Lowest in 30 days
+          </div>
+        )}
       </div>
 
       {/* Product Info */}
@@ -47,12 +165,41 @@ function ProductCard({ product }: ProductCardProps) {
         {/* Title */}
         <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2 min-h-[3rem]">{product.title}</h3>
 
+        {/* Brand and rating */}
+        {(product.brand || product.rating) && (
+          <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+            {product.brand && <span>{product.brand}</span>}
+            {product.rating && (
+              <span className="text-yellow-600">
+                ★ {product.rating.value.toFixed(1)}
+                {product.rating.count !== null && <span className="text-gray-500"> ({product.rating.count})</span>}
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Description */}
         {product.description && <p className="text-sm text-gray-600 mb-3 line-clamp-2">{product.description}</p>}
 
+        {/* Price history, once there is more than one price to compare */}
+        {trend && trend.amounts.length > 1 && (
+          <div className="text-green-600 mb-2" title={`30-day range: ${trend.summary.lowest30Days} – ${trend.summary.highest30Days}`}>
+            <PriceSparkline amounts={trend.amounts} />
+          </div>
+        )}
+
         {/* Price */}
         <div className="flex items-center justify-between">
-          <span className="text-lg font-bold text-green-600">{product.price}</span>
+          <div>
+            <span className="text-lg font-bold text-green-600">{product.price}</span>
+            {product.amount !== undefined && product.originalAmount !== undefined && (
+              <p className="text-xs">
+                <span className="line-through text-gray-400">{formatPrice(product.originalAmount, product.currency)}</span>{" "}
+                <span className="text-red-600">-{Math.round((1 - product.amount / product.originalAmount) * 100)}%</span>
+              </p>
+            )}
+            {product.availability && <p className="text-xs text-gray-500">{product.availability}</p>}
+          </div>
           <a
             href={product.url}
             target="_blank"
@@ -86,11 +233,19 @@ export default function ProductPage() {
   const [loading, setLoading] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
   const [hasMore, setHasMore] = useState(true)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [filters, setFilters] = useState<ProductFilters>(DEFAULT_FILTERS)
+  const [domains, setDomains] = useState<string[]>([])
 
-  const fetchProducts = useCallback(async (offset = 0, limit = 12) => {
+  const fetchProducts = useCallback(async (cursor: string | null = null, limit = 12) => {
     try {
-      const response = await fetch(`/api/product?offset=${offset}&limit=${limit}`)
+      const params = new URLSearchParams({ limit: String(limit) })
+      if (cursor) params.set("cursor", cursor)
+      for (const [name, value] of Object.entries(filters)) {
+        if (value) params.set(name, value)
+      }
+      const response = await fetch(`/api/product?${params}`)
       if (!response.ok) {
         throw new Error("Failed to fetch products")
       }
@@ -100,15 +255,17 @@ export default function ProductPage() {
       console.error("Error fetching products:", err)
       throw err
     }
-  }, [])
+  }, [filters])
 
   const loadInitialProducts = useCallback(async () => {
     try {
       setLoading(true)
       setError(null)
-      const data = await fetchProducts(0, 12)
+      const data = await fetchProducts(null, 12)
       setProducts(data.products)
       setHasMore(data.hasMore)
+      setNextCursor(data.nextCursor)
+      setDomains(data.domains || [])
     } catch (err) {
       setError("Failed to load products. Please try again.")
     } finally {
@@ -117,19 +274,20 @@ export default function ProductPage() {
   }, [fetchProducts])
 
   const loadMoreProducts = useCallback(async () => {
-    if (!hasMore || loadingMore) return
+    if (!hasMore || loadingMore || !nextCursor) return
 
     try {
       setLoadingMore(true)
-      const data = await fetchProducts(products.length, 12)
+      const data = await fetchProducts(nextCursor, 12)
       setProducts((prev) => [...prev, ...data.products])
       setHasMore(data.hasMore)
+      setNextCursor(data.nextCursor)
     } catch (err) {
       console.error("Error loading more products:", err)
     } finally {
       setLoadingMore(false)
     }
-  }, [products.length, hasMore, loadingMore, fetchProducts])
+  }, [nextCursor, hasMore, loadingMore, fetchProducts])
 
   useEffect(() => {
     loadInitialProducts()
@@ -148,10 +306,13 @@ export default function ProductPage() {
     return () => window.removeEventListener("scroll", handleScroll)
   }, [hasMore, loadingMore, loadMoreProducts])
 
+  const filterBar = <FilterBar filters={filters} domains={domains} onChange={setFilters} />
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50">
         <div className="max-w-7xl mx-auto py-8 px-4">
+          {filterBar}
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
             <p className="mt-4 text-gray-600">Loading products...</p>
@@ -165,6 +326,7 @@ export default function ProductPage() {
     return (
       <div className="min-h-screen bg-gray-50">
         <div className="max-w-7xl mx-auto py-8 px-4">
+          {filterBar}
           <div className="text-center">
             <p className="text-red-600 mb-4">{error}</p>
             <button
@@ -190,6 +352,8 @@ export default function ProductPage() {
           </p>
         </header>
 
+        {filterBar}
+
         {/* Products Grid */}
         <main>
           {products.length === 0 ? (
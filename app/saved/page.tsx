@@ -0,0 +1,159 @@
+"use client"
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { parseDate } from "@/lib/dates"
+import { proxiedImage } from "@/lib/image-url"
+import type { SavedKind } from "@/lib/reading-state"
+import { getSyncCode, markRead, newSyncCode, setSyncCode, syncNow, toggleSaved, useReadingState } from "@/lib/use-reading-state"
+
+function SyncPanel() {
+  const [code, setCode] = useState<string | null>(null)
+  const [input, setInput] = useState("")
+  const [status, setStatus] = useState<string | null>(null)
+
+  useEffect(() => {
+    setCode(getSyncCode())
+  }, [])
+
+  const apply = (next: string | null) => {
+    setSyncCode(next)
+    setCode(next)
+    setStatus(null)
+  }
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault()
+    const next = input.trim().toLowerCase()
+    if (!/^[a-z0-9]{16,64}$/.test(next)) {
+      setStatus("Sync codes are 16-64 letters and digits.")
+      return
+    }
+    apply(next)
+    setInput("")
+  }
+
+  const handleSync = () => {
+    setStatus("Syncing...")
+    syncNow()
+      .then(() => setStatus("Up to date."))
+      .catch(() => setStatus("Sync failed. Please try again."))
+  }
+
+  return (
+    <div className="bg-white p-3 rounded mb-4 text-sm">
+      {code ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-600">Sync code:</span>
+          <code className="bg-gray-100 px-2 py-1 rounded select-all">{code}</code>
+          <button onClick={handleSync} className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+            Sync now
+          </button>
+          <button onClick={() => apply(null)} className="px-2 py-1 text-gray-600 hover:underline">
+            Stop syncing
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-gray-600">Saved items live in this browser.</span>
+          <button onClick={() => apply(newSyncCode())} className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700">
+            Enable sync
+          </button>
+          <form onSubmit={handleJoin} className="flex items-center gap-1">
+            <input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Enter a sync code"
+              className="border px-2 py-1 rounded"
+            />
+            <button type="submit" className="px-2 py-1 border rounded hover:bg-gray-50">
+              Use code
+            </button>
+          </form>
+        </div>
+      )}
+      {code && <p className="text-gray-500 mt-2">Enter this code on another browser to share saved items and read marks.</p>}
+      {status && <p className="text-gray-600 mt-2">{status}</p>}
+    </div>
+  )
+}
+
+export default function SavedPage() {
+  const { state } = useReadingState()
+  const [kind, setKind] = useState<SavedKind | null>(null)
+
+  const items = Object.values(state.saved)
+    .filter((item) => !kind || item.kind === kind)
+    .sort((a, b) => b.savedAt - a.savedAt)
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm ${active ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"}`
+
+  return (
+    <div className="max-w-4xl mx-auto px-2 md:px-0">
+      <SyncPanel />
+
+      <div className="flex gap-2 mb-4">
+        <button onClick={() => setKind(null)} className={tabClass(kind === null)}>
+          All
+        </button>
+        <button onClick={() => setKind("news")} className={tabClass(kind === "news")}>
+          News
+        </button>
+        <button onClick={() => setKind("video")} className={tabClass(kind === "video")}>
+          Videos
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600">Nothing saved yet.</p>
+        </div>
+      ) : (
+        items.map((item) => (
+          <div
+            key={item.key}
+            className={`${state.read[item.key] ? "opacity-60" : ""} bg-white p-2 rounded mb-4 flex items-center gap-3`}
+          >
+            <div className="w-1/4 md:w-40 flex-shrink-0">
+              {item.image ? (
+                <Image
+                  src={proxiedImage(item.image, "thumb")}
+                  alt={item.title}
+                  width={320}
+                  height={180}
+                  unoptimized
+                  className="w-full h-20 object-cover rounded"
+                />
+              ) : (
+                <div className="w-full h-20 bg-gray-200 rounded" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <Link
+                href={item.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={() => markRead(item.key)}
+                className="font-semibold text-gray-900 hover:text-blue-600 line-clamp-2"
+              >
+                {item.title}
+              </Link>
+              <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                <span>{item.kind === "video" ? "Video" : "News"}</span>
+                <span>{item.source}</span>
+                <span>{parseDate(item.published)?.toLocaleDateString("en-US", { timeZone: "Asia/Dhaka" })}</span>
+              </div>
+            </div>
+            <button
+              onClick={() => toggleSaved(item)}
+              className="text-sm text-gray-500 hover:text-red-600 flex-shrink-0"
+            >
+              Remove
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
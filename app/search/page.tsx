@@ -0,0 +1,118 @@
+"use client"
+import { Suspense, useState, useEffect } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import { parseDate } from "@/lib/dates"
+import { localeFor } from "@/lib/i18n"
+import type { NewsItem } from "../api/rss/route"
+
+interface SearchHit {
+  item: NewsItem
+  score: number
+  highlights: {
+    title: string
+    snippet: string
+  }
+}
+
+function SearchResults() {
+  const searchParams = useSearchParams()
+  const query = searchParams.get("q") || ""
+  const [language, setLanguage] = useState("")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [results, setResults] = useState<SearchHit[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [languages, setLanguages] = useState<string[]>([])
+
+  useEffect(() => {
+    fetch("/api/feeds")
+      .then((response) => response.json())
+      .then((data: { feeds: { language: string; enabled: boolean }[] }) =>
+        setLanguages([...new Set(data.feeds.filter((feed) => feed.enabled).map((feed) => feed.language))])
+      )
+      .catch((err) => console.error("Error loading languages:", err))
+  }, [])
+
+  useEffect(() => {
+    if (!query) return
+
+    const params = new URLSearchParams({ q: query, limit: "50" })
+    if (language) params.set("language", language)
+    if (from) params.set("from", from)
+    if (to) params.set("to", `${to}T23:59:59`)
+
+    setLoading(true)
+    setError(null)
+    fetch(`/api/search?${params}`)
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to search news")
+        return response.json()
+      })
+      .then((data) => {
+        setResults(data.items)
+        setTotal(data.total)
+      })
+      .catch((err) => {
+        console.error("Error searching news:", err)
+        setError("Search failed. Please try again.")
+      })
+      .finally(() => setLoading(false))
+  }, [query, language, from, to])
+
+  return (
+    <div className="max-w-4xl mx-auto px-2 md:px-0">
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <select value={language} onChange={(e) => setLanguage(e.target.value)} className="bg-white px-2 py-1">
+          <option value="">All languages</option>
+          {languages.map((lang) => (
+            <option key={lang} value={lang}>
+              {localeFor(lang).name}
+            </option>
+          ))}
+        </select>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="bg-white px-2 py-1" />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="bg-white px-2 py-1" />
+        {!loading && query && <span className="text-gray-600">{total} results</span>}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        </div>
+      ) : error ? (
+        <p className="text-red-600 text-center py-8">{error}</p>
+      ) : results.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-600">{query ? "No matching news found." : "Type something to search."}</p>
+        </div>
+      ) : (
+        results.map(({ item, highlights }) => (
+          <div key={item.guid || item.link} className="bg-white p-2 rounded mb-4">
+            <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+              <span className="capitalize">{item.domain.replace("www.", "").split(".")[0]}</span>
+              <span className="ml-auto">{parseDate(item.pubDate)?.toLocaleDateString("en-US", { timeZone: "Asia/Dhaka" })}</span>
+            </div>
+            <Link href={item.link} target="_blank" rel="noopener noreferrer">
+              <h2
+                className="text-lg font-semibold text-gray-900 mb-1 hover:text-blue-600"
+                dangerouslySetInnerHTML={{ __html: highlights.title }}
+              />
+            </Link>
+            <p className="text-gray-700" dangerouslySetInnerHTML={{ __html: highlights.snippet }} />
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense>
+      <SearchResults />
+    </Suspense>
+  )
+}
@@ -1,6 +1,8 @@
 "use client"
 import { useState, useEffect, useCallback } from "react"
 import Image from "next/image"
+import { proxiedImage } from "@/lib/image-url"
+import { markRead, toggleSaved, useReadingState } from "@/lib/use-reading-state"
 
 
 interface VideoItem {
@@ -18,12 +20,17 @@ export default function VideosPage() {
   const [loading, setLoading] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
   const [hasMore, setHasMore] = useState(true)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [selectedVideo, setSelectedVideo] = useState<string | null>(null)
+  const [unwatchedSince, setUnwatchedSince] = useState<number | null>(null)
+  const { state: readingState, isRead, isSaved } = useReadingState()
 
-  const fetchVideos = useCallback(async (offset = 0, limit = 30) => {
+  const fetchVideos = useCallback(async (cursor: string | null = null, limit = 30) => {
     try {
-      const response = await fetch(`/api/videos?offset=${offset}&limit=${limit}`)
+      const params = new URLSearchParams({ limit: String(limit) })
+      if (cursor) params.set("cursor", cursor)
+      const response = await fetch(`/api/videos?${params}`)
       if (!response.ok) {
         throw new Error("Failed to fetch videos")
       }
@@ -38,9 +45,10 @@ export default function VideosPage() {
     try {
       setLoading(true)
       setError(null)
-      const data = await fetchVideos(0, 30)
+      const data = await fetchVideos(null, 30)
       setVideos(data.items)
       setHasMore(data.hasMore)
+      setNextCursor(data.nextCursor)
     } catch (err) {
       setError("Failed to load videos. Please try again.")
     } finally {
@@ -49,19 +57,20 @@ export default function VideosPage() {
   }, [fetchVideos])
 
   const loadMoreVideos = useCallback(async () => {
-    if (!hasMore || loadingMore) return
+    if (!hasMore || loadingMore || !nextCursor) return
 
     try {
       setLoadingMore(true)
-      const data = await fetchVideos(videos.length, 10)
+      const data = await fetchVideos(nextCursor, 10)
       setVideos(prev => [...prev, ...data.items])
       setHasMore(data.hasMore)
+      setNextCursor(data.nextCursor)
     } catch (err) {
       console.error("Error loading more videos:", err)
     } finally {
       setLoadingMore(false)
     }
-  }, [videos.length, hasMore, loadingMore, fetchVideos])
+  }, [nextCursor, hasMore, loadingMore, fetchVideos])
 
   useEffect(() => {
     loadInitialVideos()
@@ -88,6 +97,20 @@ export default function VideosPage() {
     })
   }
 
+  const openVideo = (videoId: string) => {
+    markRead(videoId)
+    setSelectedVideo(videoId)
+  }
+
+  // Videos watched before the toggle was switched on are hidden
+  const visibleVideos =
+    unwatchedSince === null
+      ? videos
+      : videos.filter((video) => {
+          const watchedAt = readingState.read[video.videoId]
+          return !watchedAt || watchedAt >= unwatchedSince
+        })
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -121,24 +144,33 @@ export default function VideosPage() {
 
   return (
     <>
-      <div className="max-w-4xl mx-auto">        
+      <div className="max-w-4xl mx-auto">
+        <label className="flex items-center justify-end gap-1 text-sm text-gray-700 mb-2 px-2 md:px-0">
+          <input
+            type="checkbox"
+            checked={unwatchedSince !== null}
+            onChange={(e) => setUnwatchedSince(e.target.checked ? Date.now() : null)}
+          />
+          Unwatched only
+        </label>
         {videos.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-gray-600">No videos found.</p>
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 px-2 md:px-0">
-            {videos.map((video) => (
+            {visibleVideos.map((video) => (
               <div 
                 key={video.id}
-                className="bg-white rounded-lg overflow-hidden shadow-md hover:shadow-lg transition-shadow cursor-pointer"
-                onClick={() => setSelectedVideo(video.videoId)}
+                className={`${isRead(video.videoId) ? "opacity-60" : ""} bg-white rounded-lg overflow-hidden shadow-md hover:shadow-lg transition-shadow cursor-pointer`}
+                onClick={() => openVideo(video.videoId)}
               >
                 <div className="relative aspect-video">
                   <Image
-                    src={video.thumbnail}
+                    src={proxiedImage(video.thumbnail, "thumb")}
                     alt={video.title}
                     fill
+                    unoptimized
                     className="object-cover"
                   />
                   <div className="absolute inset-0 flex items-center justify-center">
@@ -152,7 +184,28 @@ export default function VideosPage() {
                 </div>
                 <div className="p-4">
                   <h3 className="font-semibold line-clamp-2 mb-1">{video.title}</h3>
-                  <p className="text-sm text-gray-600">{video.channelName}</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-600">{video.channelName}</p>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        toggleSaved({
+                          kind: "video",
+                          key: video.videoId,
+                          title: video.title,
+                          link: `https://www.youtube.com/watch?v=${video.videoId}`,
+                          image: video.thumbnail,
+                          source: video.channelName,
+                          published: video.published,
+                        })
+                      }}
+                      title={isSaved(video.videoId) ? "Remove from saved" : "Save"}
+                      aria-pressed={isSaved(video.videoId)}
+                      className={`${isSaved(video.videoId) ? "text-blue-600" : "text-gray-400"} hover:text-blue-600`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill={isSaved(video.videoId) ? "currentColor" : "none"} stroke="currentColor" strokeWidth={2}><path strokeLinejoin="round" d="M6 3h12v18l-6-4-6 4z"/></svg>
+                    </button>
+                  </div>
                   <div className="flex justify-between items-center mt-2">
                     <span className="text-xs text-gray-500">{formatDate(video.published)}</span>
                     <span className="text-xs text-gray-500">{video.views} views</span>
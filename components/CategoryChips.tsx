@@ -0,0 +1,33 @@
+"use client"
+import { CATEGORIES, categoryLabel } from "@/lib/categories"
+import { localeFor } from "@/lib/i18n"
+
+interface CategoryChipsProps {
+  language: string
+  selected: string | null
+  onSelect: (category: string | null) => void
+}
+
+export default function CategoryChips({ language, selected, onSelect }: CategoryChipsProps) {
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm whitespace-nowrap ${
+      active ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-100"
+    }`
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-2 mb-2">
+      <button onClick={() => onSelect(null)} className={chipClass(selected === null)}>
+        {localeFor(language).strings.allCategories}
+      </button>
+      {CATEGORIES.map((category) => (
+        <button
+          key={category.id}
+          onClick={() => onSelect(selected === category.id ? null : category.id)}
+          className={chipClass(selected === category.id)}
+        >
+          {categoryLabel(category.id, language)}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -3,47 +3,56 @@ import { useState } from "react"
 import type { NewsItem } from "@/app/api/rss/route"
 import Image from "next/image"
 import Link from "next/link"
+import { parseDate } from "@/lib/dates"
+import { formatDateTime, localeFor } from "@/lib/i18n"
+import { faviconUrl, proxiedImage } from "@/lib/image-url"
+import { markRead, toggleSaved, useReadingState } from "@/lib/use-reading-state"
+
+interface ReaderArticle {
+  content: string
+  byline: string | null
+  length: number
+}
 
 interface NewsItemProps {
   item: NewsItem
+  language: string
 }
 
-export default function News({ item }: NewsItemProps) {
+export default function News({ item, language }: NewsItemProps) {
   const [isExpanded, setIsExpanded] = useState(false)
+  const [article, setArticle] = useState<ReaderArticle | null>(null)
+  const [articleState, setArticleState] = useState<"idle" | "loading" | "done">("idle")
+  const strings = localeFor(language).strings
+  const { isRead, isSaved } = useReadingState()
+  const key = item.guid || item.link
+  const read = isRead(key)
+  const saved = isSaved(key)
 
   const formatDate = (dateString: string) => {
-    try {
-      const date = new Date(dateString)
-      return date.toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "short",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      })
-    } catch {
-      return dateString
-    }
+    const date = parseDate(dateString)
+    return date ? formatDateTime(date, language) : ""
   }
 
-  const cleanDescription = (html: string) => {
-    // Remove HTML tags and decode entities
-    return html
-      .replace(/<[^>]*>/g, "")
-      .replace(/&nbsp;/g, " ")
-      .replace(/&amp;/g, "&")
-      .replace(/&lt;/g, "<")
-      .replace(/&gt;/g, ">")
-      .replace(/&quot;/g, '"')
-      .trim()
-  }
+  // The API sends sanitized HTML in `description` and a plain-text `summary`
+  const summary = item.summary ?? ""
+  // Short feed descriptions can still expand into the full text from /api/article
+  const shouldShowReadMore = !!item.link || item.description.length > summary.length
 
-  const description = cleanDescription(item.description)
-  const shortDescription = description.split("\n").slice(0, 3).join("\n")
-  const shouldShowReadMore = description.length > shortDescription.length
+  const toggleExpanded = () => {
+    setIsExpanded(!isExpanded)
+    markRead(key)
+    if (isExpanded || articleState !== "idle" || !item.link) return
 
-  const getFaviconUrl = (domain: string) => {
-    return `https://www.google.com/s2/favicons?domain=${domain}&sz=32`
+    setArticleState("loading")
+    fetch(`/api/article?url=${encodeURIComponent(item.link)}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: ReaderArticle | null) => {
+        // Keep the feed body when it already says more than the extracted page
+        if (data && data.length > item.description.replace(/<[^>]*>/g, "").length) setArticle(data)
+      })
+      .catch((err) => console.error("Error loading article:", err))
+      .finally(() => setArticleState("done"))
   }
 
   const getWebsiteName = (domain: string) => {
@@ -51,7 +60,7 @@ export default function News({ item }: NewsItemProps) {
   }
 
   return (
-    <div className="bg-white p-2 rounded mb-4">
+    <div className={`${read && !isExpanded ? "opacity-60" : ""} bg-white p-2 rounded mb-4 transition-opacity`}>
       <div
         className={`${isExpanded ? 'flex-col' : 'flex-rows'} flex items-center md:gap-4 gap-2`}
       >
@@ -60,15 +69,12 @@ export default function News({ item }: NewsItemProps) {
         >
           {item.image ? (
             <Image
-              src={item.image || "/placeholder.svg"}
+              src={proxiedImage(item.image, "card")}
               alt={item.title}
               width={800}
               height={300}
+              unoptimized
               className={`${isExpanded ? 'h-full' : 'md:h-40 h-24'} w-full object-cover rounded`}
-              onError={(e) => {
-                const target = e.target as HTMLImageElement
-                target.src = "/placeholder.svg?height=128&width=200"
-              }}
             />
           ) : (
             <div className="w-full h-32 bg-gray-200 rounded-lg flex items-center justify-center">
@@ -86,22 +92,65 @@ export default function News({ item }: NewsItemProps) {
         <div className={`${isExpanded ? 'w-full' : 'md:w-3/4 w-2/3'} flex flex-col gap-1`}>
           <div className="flex items-center gap-2">
             <Image
-              src={getFaviconUrl(item.domain) || "/placeholder.svg"}
+              src={faviconUrl(item.domain)}
               alt={`${item.domain} favicon`}
               className="w-4 h-4"
               width={32}
               height={32}
+              unoptimized
               onError={(e) => {
                 const target = e.target as HTMLImageElement
                 target.style.display = "none"
               }}
             />
             <span className="text-sm text-gray-600 capitalize">{getWebsiteName(item.domain)}</span>
+            {item.alsoCoveredBy && item.alsoCoveredBy.length > 0 && (
+              <div className="flex items-center gap-1" title={strings.alsoCoveredBy}>
+                <span className="text-xs text-gray-400">+</span>
+                {item.alsoCoveredBy.map((source) => (
+                  <Link
+                    key={source.link}
+                    href={source.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={`${getWebsiteName(source.domain)}: ${source.title}`}
+                  >
+                    <Image
+                      src={faviconUrl(source.domain)}
+                      alt={`${source.domain} favicon`}
+                      className="w-4 h-4"
+                      width={32}
+                      height={32}
+                      unoptimized
+                    />
+                  </Link>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() =>
+                toggleSaved({
+                  kind: "news",
+                  key,
+                  title: item.title,
+                  link: item.link,
+                  image: item.image || null,
+                  source: item.domain,
+                  published: item.pubDate,
+                })
+              }
+              title={saved ? strings.unsave : strings.save}
+              aria-pressed={saved}
+              className={`${saved ? "text-blue-600" : "text-gray-400"} inline-flex items-center hover:text-blue-600 ml-auto`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="22" height="22" viewBox="0 0 24 24" fill={saved ? "currentColor" : "none"} stroke="currentColor" strokeWidth={2}><path strokeLinejoin="round" d="M6 3h12v18l-6-4-6 4z"/></svg>
+            </button>
             <Link
               href={item.link}
               target="_blank"
               rel="noopener noreferrer"
-              className="inline-flex items-center hover:text-blue-600 ml-auto"
+              onClick={() => markRead(key)}
+              className="inline-flex items-center hover:text-blue-600"
             >
               <svg xmlns="http://www.w3.org/2000/svg" width="25" height="25" viewBox="0 0 32 32"><path fill="currentColor" d="M18 5v2h5.563L11.28 19.281l1.438 1.438L25 8.437V14h2V5zM5 9v18h18V14l-2 2v9H7V11h9l2-2z"/></svg>
             </Link>
@@ -115,17 +164,18 @@ export default function News({ item }: NewsItemProps) {
               {item.title}</h2>
             <div className="text-gray-700 leading-relaxed">
               {isExpanded ? (
-                <p className="whitespace-pre-line text-xl leading-10"
-                  dangerouslySetInnerHTML={{
-                    __html: description,
-                  }}
-                />
+                <>
+                  {article?.byline && <p className="text-sm text-gray-500 mb-2">{article.byline}</p>}
+                  <div
+                    className="text-xl leading-10 [&_a]:text-blue-600 [&_a]:underline [&_img]:my-2 [&_img]:rounded [&_p]:mb-4"
+                    dangerouslySetInnerHTML={{
+                      __html: article ? article.content : item.description,
+                    }}
+                  />
+                  {articleState === "loading" && <p className="text-sm text-gray-500">{strings.loadingArticle}</p>}
+                </>
               ) : (
-                <p className="whitespace-pre-line text-base line-clamp-1 md:line-clamp-3"
-                  dangerouslySetInnerHTML={{
-                    __html: shortDescription,
-                  }}
-                />
+                <p className="whitespace-pre-line text-base line-clamp-1 md:line-clamp-3">{summary}</p>
               )}
             </div>
           </div>
@@ -134,8 +184,8 @@ export default function News({ item }: NewsItemProps) {
           <div className="flex items-center justify-between text-sm text-gray-500">
             <span>{formatDate(item.pubDate)}</span>
             {shouldShowReadMore && (
-              <button onClick={() => setIsExpanded(!isExpanded)} className="text-blue-600 hover:underline font-medium">
-                {isExpanded ? "Read Less" : "Read More"}
+              <button onClick={toggleExpanded} className="text-blue-600 hover:underline font-medium">
+                {isExpanded ? strings.readLess : strings.readMore}
               </button>
             )}
           </div>
@@ -0,0 +1,256 @@
+"use client"
+import { useState, useEffect, useCallback, useLayoutEffect, useRef } from "react"
+import News from "@/components/News"
+import CategoryChips from "@/components/CategoryChips"
+import type { NewsItem } from "@/app/api/rss/route"
+import { formatDateTime, formatNumber, localeFor } from "@/lib/i18n"
+import { useReadingState } from "@/lib/use-reading-state"
+
+interface NewsFeedProps {
+  language: string
+}
+
+export default function NewsFeed({ language }: NewsFeedProps) {
+  const strings = localeFor(language).strings
+  const [newsItems, setNewsItems] = useState<NewsItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(true)
+  const [total, setTotal] = useState(0)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [category, setCategory] = useState<string | null>(null)
+  // Items read before the toggle was switched on are hidden; ones read afterwards stay until the next toggle
+  const [unreadSince, setUnreadSince] = useState<number | null>(null)
+  // Set by the service worker when it answered from its cache because the network failed
+  const [cachedAt, setCachedAt] = useState<string | null>(null)
+  // Pushed by /api/rss/stream and held back until the reader asks for them
+  const [ingestCursor, setIngestCursor] = useState<string | null>(null)
+  const [pendingItems, setPendingItems] = useState<NewsItem[]>([])
+  const listRef = useRef<HTMLDivElement>(null)
+  const scrollAnchor = useRef<{ element: Element; top: number } | null>(null)
+  const { state: readingState } = useReadingState()
+
+  const fetchNews = useCallback(async (cursor: string | null = null, limit = 30) => {
+    try {
+      const params = new URLSearchParams({ limit: String(limit), language })
+      if (cursor) params.set("cursor", cursor)
+      if (category) params.set("category", category)
+      const response = await fetch(`/api/rss?${params}`)
+      if (!response.ok) {
+        throw new Error("Failed to fetch news")
+      }
+      const data = await response.json()
+      return { ...data, cachedAt: response.headers.get("X-Cached-At") }
+    } catch (err) {
+      console.error("Error fetching news:", err)
+      throw err
+    }
+  }, [language, category])
+
+  const loadInitialNews = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const data = await fetchNews(null, 30)
+      setNewsItems(data.items)
+      setHasMore(data.hasMore)
+      setTotal(data.total)
+      setNextCursor(data.nextCursor)
+      setIngestCursor(data.ingestCursor)
+      setPendingItems([])
+      setCachedAt(data.cachedAt)
+    } catch (err) {
+      setError(strings.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [fetchNews, strings])
+
+  const loadMoreNews = useCallback(async () => {
+    if (!hasMore || loadingMore || !nextCursor) return
+
+    try {
+      setLoadingMore(true)
+      const data = await fetchNews(nextCursor, 10)
+      setNewsItems((prev) => [...prev, ...data.items])
+      setHasMore(data.hasMore)
+      setNextCursor(data.nextCursor)
+    } catch (err) {
+      console.error("Error loading more news:", err)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [nextCursor, hasMore, loadingMore, fetchNews])
+
+  useEffect(() => {
+    loadInitialNews()
+  }, [loadInitialNews])
+
+  useEffect(() => {
+    if (!cachedAt) return
+    window.addEventListener("online", loadInitialNews)
+    return () => window.removeEventListener("online", loadInitialNews)
+  }, [cachedAt, loadInitialNews])
+
+  useEffect(() => {
+    if (!ingestCursor || cachedAt) return
+    const params = new URLSearchParams({ language, since: ingestCursor })
+    if (category) params.set("category", category)
+    const source = new EventSource(`/api/rss/stream?${params}`)
+    source.addEventListener("items", (event) => {
+      const { items } = JSON.parse((event as MessageEvent).data) as { items: NewsItem[] }
+      setPendingItems((prev) => {
+        const seen = new Set(prev.map((item) => item.guid || item.link))
+        return [...items.filter((item) => !seen.has(item.guid || item.link)), ...prev]
+      })
+    })
+    return () => source.close()
+  }, [language, category, ingestCursor, cachedAt])
+
+  const showPendingItems = () => {
+    // Remember where the first card on screen sits so prepending doesn't push it away; at the top, let the new stories show
+    const firstVisible = Array.from(listRef.current?.children ?? []).find((child) => child.getBoundingClientRect().bottom > 0)
+    scrollAnchor.current =
+      window.scrollY > 0 && firstVisible ? { element: firstVisible, top: firstVisible.getBoundingClientRect().top } : null
+
+    const seen = new Set(newsItems.map((item) => item.guid || item.link))
+    const added = pendingItems.filter((item) => !seen.has(item.guid || item.link))
+    setNewsItems([...added, ...newsItems])
+    setTotal((count) => count + added.length)
+    setPendingItems([])
+  }
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchor.current
+    if (!anchor) return
+    scrollAnchor.current = null
+    window.scrollBy(0, anchor.element.getBoundingClientRect().top - anchor.top)
+  }, [newsItems])
+
+  useEffect(() => {
+    const handleScroll = () => {
+      if (window.innerHeight + window.scrollY >= document.body.offsetHeight - 500) {
+        if (hasMore && !loadingMore) {
+          loadMoreNews()
+        }
+      }
+    }
+
+    window.addEventListener("scroll", handleScroll)
+    return () => window.removeEventListener("scroll", handleScroll)
+  }, [hasMore, loadingMore, loadMoreNews])
+
+  const toolbar = (
+    <>
+      {cachedAt && (
+        <div className="bg-yellow-100 text-yellow-800 text-sm px-3 py-2 rounded mb-2">
+          {strings.showingCached(formatDateTime(new Date(cachedAt), language))}
+        </div>
+      )}
+      <div className="flex items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <CategoryChips language={language} selected={category} onSelect={setCategory} />
+        </div>
+        <label className="flex items-center gap-1 text-sm text-gray-700 whitespace-nowrap py-1">
+          <input
+            type="checkbox"
+            checked={unreadSince !== null}
+            onChange={(e) => setUnreadSince(e.target.checked ? Date.now() : null)}
+          />
+          {strings.unreadOnly}
+        </label>
+      </div>
+    </>
+  )
+
+  const visibleItems =
+    unreadSince === null
+      ? newsItems
+      : newsItems.filter((item) => {
+          const readAt = readingState.read[item.guid || item.link]
+          return !readAt || readAt >= unreadSince
+        })
+
+  if (loading) {
+    return (
+      <div className="min-h-screen">
+        <div className="max-w-4xl mx-auto">{toolbar}</div>
+        <div className="max-w-4xl mx-auto py-8">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">{strings.loadingNews}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen">
+        <div className="max-w-4xl mx-auto">{toolbar}</div>
+        <div className="max-w-4xl mx-auto py-8">
+          <div className="text-center">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button 
+              onClick={loadInitialNews} 
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              {strings.tryAgain}
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <div className="max-w-4xl mx-auto">
+        {toolbar}
+        {pendingItems.length > 0 && (
+          <div className="sticky top-2 z-10 flex justify-center mb-2">
+            <button
+              onClick={showPendingItems}
+              className="px-4 py-1 bg-blue-600 text-white text-sm rounded-full shadow hover:bg-blue-700"
+            >
+              {strings.newStories(formatNumber(pendingItems.length, language))}
+            </button>
+          </div>
+        )}
+        <>
+          {newsItems.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600">{strings.noNews}</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 mb-2">{strings.storyCount(formatNumber(total, language))}</p>
+              <div ref={listRef}>
+                {visibleItems.map((item) => (
+                  <News key={item.guid || item.link} item={item} language={language} />
+                ))}
+              </div>
+
+              {/* Loading More Indicator */}
+              {loadingMore && (
+                <div className="text-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                  <p className="mt-2 text-gray-600">{strings.loadingMore}</p>
+                </div>
+              )}
+
+              {/* End of Feed */}
+              {!hasMore && (
+                <div className="text-center py-8 text-gray-500">
+                  <p>{strings.endOfFeed}</p>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      </div>
+    </>
+  )
+}
\ No newline at end of file
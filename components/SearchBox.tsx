@@ -0,0 +1,27 @@
+"use client"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+
+export default function SearchBox() {
+  const router = useRouter()
+  const [query, setQuery] = useState("")
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const q = query.trim()
+    if (!q) return
+    router.push(`/search?q=${encodeURIComponent(q)}`)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search news..."
+        className="bg-white px-2 text-black w-32 md:w-48"
+      />
+    </form>
+  )
+}
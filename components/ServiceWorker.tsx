@@ -0,0 +1,22 @@
+"use client"
+import { useEffect } from "react"
+import { syncNow } from "@/lib/use-reading-state"
+
+// Registers public/sw.js; in development it would cache hot-reloaded bundles, so it only runs in production builds
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+    navigator.serviceWorker.register("/sw.js").catch((err) => console.error("Error registering service worker:", err))
+  }, [])
+
+  // Bookmarks and read marks changed offline are pushed once the connection is back
+  useEffect(() => {
+    const handleOnline = () => {
+      syncNow().catch((err) => console.error("Error syncing reading state:", err))
+    }
+    window.addEventListener("online", handleOnline)
+    return () => window.removeEventListener("online", handleOnline)
+  }, [])
+
+  return null
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // The file-backed store and timers need the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.DISABLE_INGEST_SCHEDULER !== "1") {
+    const { startIngestScheduler } = await import("./lib/ingest")
+    startIngestScheduler()
+  }
+}
@@ -0,0 +1,25 @@
+import { timingSafeEqual } from "crypto"
+
+// Routes that change feeds, alerts or trigger ingestion stay closed until this is set
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || ""
+
+export class AdminAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message)
+    this.name = "AdminAuthError"
+  }
+}
+
+/** Throws unless the request carries the admin token as `Authorization: Bearer <token>` */
+export function requireAdmin(request: Request): void {
+  if (!ADMIN_TOKEN) throw new AdminAuthError("Admin API is disabled; set ADMIN_TOKEN to enable it", 403)
+
+  const given = Buffer.from(request.headers.get("authorization")?.replace(/^Bearer\s+/i, "") || "")
+  const expected = Buffer.from(ADMIN_TOKEN)
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new AdminAuthError("A valid admin token is required", 401)
+  }
+}
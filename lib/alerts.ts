@@ -0,0 +1,358 @@
+import { createHmac, randomBytes } from "crypto"
+import { articleKey, type StoredArticle } from "./article-store"
+import { readJSON, withFileLock, writeJSON } from "./json-file"
+import { isPublicUrl } from "./public-url"
+import { plainText, tokenize } from "./search"
+
+export interface AlertRule {
+  id: string
+  name: string
+  /** Any keyword matches; a multi-word keyword needs all of its words somewhere in the story */
+  keywords: string[]
+  /** Exact word sequences, e.g. a person's full name */
+  phrases: string[]
+  /** Source domains to watch; empty means every source */
+  domains: string[]
+  /** Feed languages to watch; empty means every language */
+  languages: string[]
+  webhookUrl: string | null
+  /** HMAC-SHA256 key for the X-Alert-Signature header */
+  secret: string
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AlertInput {
+  name?: string
+  keywords?: string[]
+  phrases?: string[]
+  domains?: string[]
+  languages?: string[]
+  webhookUrl?: string | null
+  secret?: string
+  enabled?: boolean
+}
+
+export type DeliveryStatus = "pending" | "delivered" | "failed" | "skipped"
+
+export interface AlertMatch {
+  /** Article key (guid or link) */
+  id: string
+  alertId: string
+  matchedAt: string
+  /** The keywords and phrases that hit */
+  terms: string[]
+  item: {
+    title: string
+    link: string
+    domain: string
+    language: string
+    pubDate: string
+    summary: string
+  }
+  delivery: {
+    status: DeliveryStatus
+    attempts: number
+    lastError: string | null
+    deliveredAt: string | null
+  }
+}
+
+export class AlertError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message)
+    this.name = "AlertError"
+  }
+}
+
+const ALERTS_FILE = "alerts.json"
+const MAX_MATCHES_PER_ALERT = 500
+const WEBHOOK_TIMEOUT_MS = 10000
+// Delays before the 2nd, 3rd and 4th delivery attempt
+const RETRY_DELAYS_MS = [5000, 30000, 120000]
+
+function matchesFile(alertId: string) {
+  return `alert-matches/${alertId}.json`
+}
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value)) throw new AlertError(`${field} must be an array of strings`, 400)
+  return [...new Set(value.map((entry) => String(entry).trim()).filter(Boolean))]
+}
+
+async function normalizeWebhook(value: unknown): Promise<string | null> {
+  if (value === undefined || value === null || value === "") return null
+  let url: URL
+  try {
+    url = new URL(String(value).trim())
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error()
+  } catch {
+    throw new AlertError("webhookUrl must be an http(s) URL", 400)
+  }
+  if (!(await isPublicUrl(url))) throw new AlertError("webhookUrl must resolve to a public address", 400)
+  return url.toString()
+}
+
+function checkTerms(rule: Pick<AlertRule, "keywords" | "phrases">) {
+  if (rule.keywords.length === 0 && rule.phrases.length === 0) {
+    throw new AlertError("An alert needs at least one keyword or phrase", 400)
+  }
+}
+
+export async function listAlerts(): Promise<AlertRule[]> {
+  return readJSON<AlertRule[]>(ALERTS_FILE, [])
+}
+
+export async function getAlert(id: string): Promise<AlertRule | null> {
+  return (await listAlerts()).find((alert) => alert.id === id) || null
+}
+
+/** The secret is only shown when an alert is created */
+export function redactAlert(alert: AlertRule): Omit<AlertRule, "secret"> {
+  const { secret, ...rest } = alert
+  return rest
+}
+
+export function createAlert(input: AlertInput): Promise<AlertRule> {
+  return withFileLock(ALERTS_FILE, async () => {
+    const now = new Date().toISOString()
+    const keywords = stringList(input.keywords, "keywords")
+    const phrases = stringList(input.phrases, "phrases")
+    const alert: AlertRule = {
+      id: randomBytes(6).toString("hex"),
+      name: String(input.name ?? "").trim() || [...phrases, ...keywords].slice(0, 3).join(", "),
+      keywords,
+      phrases,
+      domains: stringList(input.domains, "domains").map((domain) => domain.toLowerCase().replace(/^www\./, "")),
+      languages: stringList(input.languages, "languages").map((language) => language.toLowerCase()),
+      webhookUrl: await normalizeWebhook(input.webhookUrl),
+      secret: String(input.secret ?? "").trim() || randomBytes(24).toString("hex"),
+      enabled: input.enabled === undefined ? true : Boolean(input.enabled),
+      createdAt: now,
+      updatedAt: now,
+    }
+    checkTerms(alert)
+
+    await writeJSON(ALERTS_FILE, [...(await listAlerts()), alert])
+    return alert
+  })
+}
+
+export function updateAlert(id: string, patch: AlertInput): Promise<AlertRule> {
+  return withFileLock(ALERTS_FILE, async () => {
+    const alerts = await listAlerts()
+    const existing = alerts.find((alert) => alert.id === id)
+    if (!existing) throw new AlertError(`Alert ${id} not found`, 404)
+
+    const updated: AlertRule = { ...existing, updatedAt: new Date().toISOString() }
+    if (patch.name !== undefined) updated.name = String(patch.name).trim() || existing.name
+    if (patch.keywords !== undefined) updated.keywords = stringList(patch.keywords, "keywords")
+    if (patch.phrases !== undefined) updated.phrases = stringList(patch.phrases, "phrases")
+    if (patch.domains !== undefined) {
+      updated.domains = stringList(patch.domains, "domains").map((domain) => domain.toLowerCase().replace(/^www\./, ""))
+    }
+    if (patch.languages !== undefined) {
+      updated.languages = stringList(patch.languages, "languages").map((language) => language.toLowerCase())
+    }
+    if (patch.webhookUrl !== undefined) updated.webhookUrl = await normalizeWebhook(patch.webhookUrl)
+    if (patch.secret !== undefined) updated.secret = String(patch.secret).trim() || existing.secret
+    if (patch.enabled !== undefined) updated.enabled = Boolean(patch.enabled)
+    checkTerms(updated)
+
+    await writeJSON(
+      ALERTS_FILE,
+      alerts.map((alert) => (alert.id === id ? updated : alert))
+    )
+    return updated
+  })
+}
+
+export function deleteAlert(id: string): Promise<void> {
+  return withFileLock(ALERTS_FILE, async () => {
+    const alerts = await listAlerts()
+    if (!alerts.some((alert) => alert.id === id)) throw new AlertError(`Alert ${id} not found`, 404)
+    await writeJSON(
+      ALERTS_FILE,
+      alerts.filter((alert) => alert.id !== id)
+    )
+    await writeJSON(matchesFile(id), [])
+  })
+}
+
+export async function getAlertMatches(id: string): Promise<AlertMatch[]> {
+  return readJSON<AlertMatch[]>(matchesFile(id), [])
+}
+
+function containsSequence(tokens: string[], sequence: string[]) {
+  if (sequence.length === 0) return false
+  for (let start = 0; start + sequence.length <= tokens.length; start++) {
+    if (sequence.every((token, offset) => tokens[start + offset] === token)) return true
+  }
+  return false
+}
+
+function fromDomain(domain: string, domains: string[]) {
+  const host = domain.toLowerCase().replace(/^www\./, "")
+  return domains.some((entry) => host === entry || host.endsWith(`.${entry}`))
+}
+
+/**
+ * Terms of the rule found in the article. Matching runs on the search
+ * tokenizer's stems, so "নির্বাচনে" matches the keyword "নির্বাচন" and
+ * "elections" matches "election".
+ */
+export function matchAlert(alert: AlertRule, article: StoredArticle): string[] {
+  if (alert.languages.length && !alert.languages.includes(article.language)) return []
+  if (alert.domains.length && !fromDomain(article.domain, alert.domains)) return []
+
+  const tokens = tokenize(`${article.title} ${article.summary ?? plainText(article.description)}`)
+  const tokenSet = new Set(tokens)
+  const terms: string[] = []
+
+  for (const keyword of alert.keywords) {
+    const words = tokenize(keyword)
+    if (words.length && words.every((word) => tokenSet.has(word))) terms.push(keyword)
+  }
+  for (const phrase of alert.phrases) {
+    if (containsSequence(tokens, tokenize(phrase))) terms.push(phrase)
+  }
+  return terms
+}
+
+function signature(secret: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+}
+
+function updateDeliveries(alertId: string, ids: Set<string>, delivery: AlertMatch["delivery"]): Promise<void> {
+  return withFileLock(matchesFile(alertId), async () => {
+    const matches = await getAlertMatches(alertId)
+    await writeJSON(
+      matchesFile(alertId),
+      matches.map((match) => (ids.has(match.id) ? { ...match, delivery } : match))
+    )
+  })
+}
+
+/**
+ * POSTs a batch of matches to the alert's webhook. The body is signed with
+ * the alert secret (HMAC-SHA256, hex) in X-Alert-Signature. Network errors,
+ * 429 and 5xx answers are retried with growing delays; redirects and other
+ * 4xx are final.
+ */
+async function deliver(alert: AlertRule, matches: AlertMatch[]): Promise<void> {
+  const ids = new Set(matches.map((match) => match.id))
+  if (!alert.webhookUrl) {
+    await updateDeliveries(alert.id, ids, { status: "skipped", attempts: 0, lastError: null, deliveredAt: null })
+    return
+  }
+
+  const body = JSON.stringify({
+    alert: { id: alert.id, name: alert.name },
+    sentAt: new Date().toISOString(),
+    matches: matches.map(({ id, terms, item, matchedAt }) => ({ id, terms, matchedAt, ...item })),
+  })
+
+  let lastError: string | null = null
+  for (let attempt = 1; attempt <= RETRY_DELAYS_MS.length + 1; attempt++) {
+    try {
+      // Checked on every attempt since DNS can change after the alert was saved
+      if (!(await isPublicUrl(alert.webhookUrl))) throw new Error("Webhook host does not resolve to a public address")
+      const response = await fetch(alert.webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "bd-news-rss-alerts",
+          "X-Alert-Id": alert.id,
+          "X-Alert-Signature": signature(alert.secret, body),
+        },
+        body,
+        cache: "no-store",
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      })
+      if (response.ok) {
+        await updateDeliveries(alert.id, ids, {
+          status: "delivered",
+          attempts: attempt,
+          lastError: null,
+          deliveredAt: new Date().toISOString(),
+        })
+        return
+      }
+      lastError = `Webhook returned ${response.status}`
+      if (response.status < 500 && response.status !== 429) {
+        await updateDeliveries(alert.id, ids, { status: "failed", attempts: attempt, lastError, deliveredAt: null })
+        return
+      }
+    } catch (error) {
+      lastError = (error as Error).message
+    }
+
+    const delay = RETRY_DELAYS_MS[attempt - 1]
+    if (delay === undefined) break
+    await updateDeliveries(alert.id, ids, { status: "pending", attempts: attempt, lastError, deliveredAt: null })
+    await new Promise((resolve) => setTimeout(resolve, delay))
+  }
+
+  await updateDeliveries(alert.id, ids, {
+    status: "failed",
+    attempts: RETRY_DELAYS_MS.length + 1,
+    lastError,
+    deliveredAt: null,
+  })
+}
+
+/**
+ * Checks newly ingested articles against every enabled alert, records the
+ * matches and hands them to the webhook in the background.
+ */
+export async function evaluateAlerts(articles: StoredArticle[]): Promise<number> {
+  if (articles.length === 0) return 0
+  const alerts = (await listAlerts()).filter((alert) => alert.enabled)
+  let total = 0
+
+  for (const alert of alerts) {
+    const now = new Date().toISOString()
+    const found: AlertMatch[] = []
+    for (const article of articles) {
+      const terms = matchAlert(alert, article)
+      if (terms.length === 0) continue
+      found.push({
+        id: articleKey(article),
+        alertId: alert.id,
+        matchedAt: now,
+        terms,
+        item: {
+          title: article.title,
+          link: article.link,
+          domain: article.domain,
+          language: article.language,
+          pubDate: article.pubDate,
+          summary: article.summary ?? "",
+        },
+        delivery: { status: "pending", attempts: 0, lastError: null, deliveredAt: null },
+      })
+    }
+    if (found.length === 0) continue
+
+    const recorded = await withFileLock(matchesFile(alert.id), async () => {
+      const existing = await getAlertMatches(alert.id)
+      const seen = new Set(existing.map((match) => match.id))
+      const fresh = found.filter((match) => !seen.has(match.id))
+      if (fresh.length) {
+        await writeJSON(matchesFile(alert.id), [...fresh, ...existing].slice(0, MAX_MATCHES_PER_ALERT))
+      }
+      return fresh
+    })
+    if (recorded.length === 0) continue
+
+    total += recorded.length
+    deliver(alert, recorded).catch((error) => console.error(`Error delivering alert ${alert.id}:`, error))
+  }
+  return total
+}
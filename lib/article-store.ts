@@ -0,0 +1,114 @@
+import { normalizeDate, parseDate } from "./dates"
+import { readJSON, withFileLock, writeJSON } from "./json-file"
+import type { NewsItem } from "./types"
+
+export interface StoredArticle extends NewsItem {
+  language: string
+  firstSeen: string
+}
+
+interface ArticleFile {
+  lastIngest: string | null
+  items: StoredArticle[]
+}
+
+const RETENTION_DAYS = Number(process.env.ARTICLE_RETENTION_DAYS || 30)
+const MAX_ARTICLES_PER_LANGUAGE = Number(process.env.MAX_ARTICLES_PER_LANGUAGE || 5000)
+
+const emptyFile: ArticleFile = { lastIngest: null, items: [] }
+function fileName(language: string) {
+  return `articles-${language}.json`
+}
+
+export function articleKey(item: Pick<NewsItem, "guid" | "link">) {
+  return item.guid || item.link
+}
+
+/** Publication time in ms, falling back to when the article was first seen */
+export function articleTime(item: StoredArticle): number {
+  return (parseDate(item.pubDate) || new Date(item.firstSeen)).getTime()
+}
+
+/** Articles stored before dates were normalized may still carry the feed's raw date string */
+export function withISODate(item: StoredArticle): StoredArticle {
+  const pubDate = normalizeDate(item.pubDate, item.firstSeen)
+  return pubDate === item.pubDate ? item : { ...item, pubDate }
+}
+
+export async function getArticles(language: string): Promise<StoredArticle[]> {
+  const file = await readJSON<ArticleFile>(fileName(language), emptyFile)
+  return file.items
+}
+
+export async function getLastIngest(language: string): Promise<Date | null> {
+  const file = await readJSON<ArticleFile>(fileName(language), emptyFile)
+  return file.lastIngest ? new Date(file.lastIngest) : null
+}
+
+/**
+ * Merges freshly fetched items into the store. Dates are stored as ISO
+ * timestamps, falling back to `firstSeen` when the feed's date is missing or
+ * unparseable. Existing articles keep their `firstSeen` and any image found
+ * earlier; articles that fell out of the publisher's feed are kept until they
+ * age past the retention window.
+ * Returns the articles that were not in the store before.
+ */
+export function upsertArticles(language: string, items: NewsItem[]): Promise<StoredArticle[]> {
+  return withFileLock(fileName(language), async () => {
+    const file = await readJSON<ArticleFile>(fileName(language), emptyFile)
+    const byKey = new Map(file.items.map((item) => [articleKey(item), item]))
+    const now = new Date().toISOString()
+    const added: StoredArticle[] = []
+
+    for (const item of items) {
+      const key = articleKey(item)
+      if (!key) continue
+
+      const existing = byKey.get(key)
+      const firstSeen = existing?.firstSeen || now
+      const merged: StoredArticle = {
+        ...existing,
+        ...item,
+        pubDate: normalizeDate(item.pubDate, existing?.pubDate || firstSeen),
+        image: item.image || existing?.image || "",
+        needsImage: existing && !existing.needsImage ? false : item.needsImage,
+        language,
+        firstSeen,
+      }
+      if (!existing) added.push(merged)
+      byKey.set(key, merged)
+    }
+
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000
+    const retained = [...byKey.values()]
+      .filter((item) => articleTime(item) >= cutoff)
+      .sort((a, b) => articleTime(b) - articleTime(a))
+      .slice(0, MAX_ARTICLES_PER_LANGUAGE)
+
+    await writeJSON(fileName(language), { lastIngest: now, items: retained })
+    return added
+  })
+}
+
+/**
+ * Writes back fields discovered after ingestion (e.g. og:image) so they are
+ * not looked up again on the next request.
+ */
+export function updateArticles(language: string, items: NewsItem[]): Promise<void> {
+  return withFileLock(fileName(language), async () => {
+    const file = await readJSON<ArticleFile>(fileName(language), emptyFile)
+    const updates = new Map(items.map((item) => [articleKey(item), item]))
+    let changed = false
+
+    const next = file.items.map((item) => {
+      const update = updates.get(articleKey(item))
+      if (!update) return item
+      changed = true
+      // Clusters are derived per request and must not be persisted onto the head article
+      const { alsoCoveredBy, ...fields } = update
+      return { ...item, ...fields, language: item.language, firstSeen: item.firstSeen }
+    })
+
+    if (changed) await writeJSON(fileName(language), { ...file, items: next })
+  })
+}
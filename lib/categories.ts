@@ -0,0 +1,165 @@
+// Shared by server and client code: the topic taxonomy that feed categories are mapped onto
+
+import type { NewsItem } from "./types"
+
+export interface Category {
+  id: string
+  labels: { bangla: string; english: string }
+  /** Lower-case feed labels and URL path segments that mean this topic */
+  aliases: string[]
+}
+
+export const CATEGORIES: Category[] = [
+  {
+    id: "national",
+    labels: { bangla: "জাতীয়", english: "National" },
+    aliases: ["national", "bangladesh", "country", "nation", "জাতীয়", "দেশ", "সারাদেশ", "সারা দেশ", "বাংলাদেশ", "রাজধানী"],
+  },
+  {
+    id: "politics",
+    labels: { bangla: "রাজনীতি", english: "Politics" },
+    aliases: ["politics", "political", "election", "elections", "government", "রাজনীতি", "নির্বাচন"],
+  },
+  {
+    id: "international",
+    labels: { bangla: "আন্তর্জাতিক", english: "World" },
+    aliases: ["world", "international", "global", "asia", "europe", "middle east", "আন্তর্জাতিক", "বিশ্ব", "বিদেশ", "দুনিয়া"],
+  },
+  {
+    id: "business",
+    labels: { bangla: "অর্থনীতি", english: "Business" },
+    aliases: [
+      "business", "economy", "economics", "finance", "markets", "market", "stock", "stocks", "trade", "money",
+      "অর্থনীতি", "বাণিজ্য", "ব্যবসা", "অর্থ", "শেয়ারবাজার", "পুঁজিবাজার", "ব্যাংক",
+    ],
+  },
+  {
+    id: "sports",
+    labels: { bangla: "খেলা", english: "Sports" },
+    aliases: ["sport", "sports", "cricket", "football", "soccer", "tennis", "world cup", "খেলা", "খেলাধুলা", "ক্রিকেট", "ফুটবল", "বিশ্বকাপ"],
+  },
+  {
+    id: "entertainment",
+    labels: { bangla: "বিনোদন", english: "Entertainment" },
+    aliases: [
+      "entertainment", "showbiz", "culture", "arts", "film", "films", "movies", "music", "celebrity",
+      "বিনোদন", "সংস্কৃতি", "চলচ্চিত্র", "সিনেমা", "গান",
+    ],
+  },
+  {
+    id: "technology",
+    labels: { bangla: "প্রযুক্তি", english: "Technology" },
+    aliases: ["technology", "tech", "science", "gadgets", "internet", "প্রযুক্তি", "তথ্যপ্রযুক্তি", "বিজ্ঞান"],
+  },
+  {
+    id: "health",
+    labels: { bangla: "স্বাস্থ্য", english: "Health" },
+    aliases: ["health", "medicine", "healthcare", "wellness", "স্বাস্থ্য", "চিকিৎসা"],
+  },
+  {
+    id: "education",
+    labels: { bangla: "শিক্ষা", english: "Education" },
+    aliases: ["education", "campus", "university", "schools", "শিক্ষা", "ক্যাম্পাস", "বিশ্ববিদ্যালয়"],
+  },
+  {
+    id: "lifestyle",
+    labels: { bangla: "জীবনযাপন", english: "Lifestyle" },
+    aliases: ["lifestyle", "lifeandstyle", "life", "travel", "food", "fashion", "জীবনযাপন", "লাইফস্টাইল", "ভ্রমণ", "রান্না"],
+  },
+  {
+    id: "opinion",
+    labels: { bangla: "মতামত", english: "Opinion" },
+    aliases: ["opinion", "opinions", "editorial", "column", "columns", "commentisfree", "মতামত", "সম্পাদকীয়", "কলাম", "উপসম্পাদকীয়"],
+  },
+  {
+    id: "environment",
+    labels: { bangla: "পরিবেশ", english: "Environment" },
+    aliases: ["environment", "climate", "weather", "পরিবেশ", "জলবায়ু", "আবহাওয়া"],
+  },
+]
+
+const BY_ALIAS = new Map(CATEGORIES.flatMap((category) => category.aliases.map((alias) => [normalizeLabel(alias), category.id])))
+
+function normalizeLabel(label: string) {
+  return label
+    .normalize("NFC")
+    .replace(/[\u200C\u200D]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+export function isCategory(id: string): boolean {
+  return CATEGORIES.some((category) => category.id === id)
+}
+
+export function categoryLabel(id: string, language: string): string {
+  const category = CATEGORIES.find((entry) => entry.id === id)
+  if (!category) return id
+  return language === "bangla" ? category.labels.bangla : category.labels.english
+}
+
+/**
+ * Maps free-form feed labels such as "Sports", "খেলাধুলা" or "Business & Economy"
+ * onto taxonomy ids. Compound labels are matched whole first, then by part,
+ * then by word.
+ */
+export function categorize(labels: string[]): string[] {
+  const ids = new Set<string>()
+  for (const label of labels) {
+    const normalized = normalizeLabel(label)
+    const whole = BY_ALIAS.get(normalized)
+    if (whole) {
+      ids.add(whole)
+      continue
+    }
+    for (const part of normalized.split(/\s*(?:[,/|&>:;-]|\band\b|\sও\s)\s*/)) {
+      const id = BY_ALIAS.get(part)
+      if (id) {
+        ids.add(id)
+        continue
+      }
+      // "World news"; two-word aliases win over their words, so "Cricket World Cup" stays in sports
+      const words = part.split(" ")
+      for (let index = 0; index < words.length; index++) {
+        const pairId = BY_ALIAS.get(`${words[index]} ${words[index + 1]}`)
+        if (pairId) {
+          ids.add(pairId)
+          index++
+          continue
+        }
+        const wordId = BY_ALIAS.get(words[index])
+        if (wordId) ids.add(wordId)
+      }
+    }
+  }
+  return [...ids]
+}
+
+// Many outlets put the section in the URL, e.g. /sports/news/123. The last
+// segment and hyphenated ones are headline slugs (/the-market-fell-as-...), not sections
+function linkSections(link: string): string[] {
+  try {
+    return new URL(link).pathname
+      .split("/")
+      .slice(0, -1)
+      .map((segment) => decodeURIComponent(segment))
+      .filter((segment) => segment && !/[\d_-]/.test(segment))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Taxonomy ids for an item: its feed categories, else the section in its
+ * link, else the category configured on the feed it came from.
+ */
+export function itemCategories(item: Pick<NewsItem, "tags" | "link">, feedCategory?: string | null): string[] {
+  const fromTags = categorize(item.tags || [])
+  if (fromTags.length) return fromTags
+
+  const fromLink = categorize(linkSections(item.link).slice(0, 2))
+  if (fromLink.length) return fromLink
+
+  return feedCategory ? categorize([feedCategory]) : []
+}
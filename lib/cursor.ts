@@ -0,0 +1,97 @@
+export interface CursorPosition {
+  key: number | string
+  id: string
+}
+
+export interface PageOptions<T> {
+  key: (item: T) => number | string
+  id: (item: T) => string
+  order: "asc" | "desc"
+  limit: number
+  /** Continue after this position (the `nextCursor` of the previous page) */
+  cursor?: string | null
+  /** Only return items that sort before this position (the `sinceCursor` of an earlier response) */
+  since?: string | null
+  /** Legacy offset paging, used only when no cursor is given */
+  offset?: number
+}
+
+export interface Page<T> {
+  items: T[]
+  hasMore: boolean
+  total: number
+  nextCursor: string | null
+  sinceCursor: string | null
+}
+
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`)
+    this.name = "InvalidCursorError"
+  }
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.key, position.id])).toString("base64url")
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"))
+    if ((typeof key === "number" || typeof key === "string") && typeof id === "string") {
+      return { key, id }
+    }
+  } catch {}
+  throw new InvalidCursorError(cursor)
+}
+
+/** Publish-time sort key; unparseable dates sort as the oldest possible items */
+export function timeKey(date: string): number {
+  const time = new Date(date).getTime()
+  return isNaN(time) ? 0 : time
+}
+
+function compareValues(a: number | string, b: number | string) {
+  if (typeof a === "number" && typeof b === "number") return a - b
+  return String(a).localeCompare(String(b))
+}
+
+/**
+ * Pages through a list in a total order of (key, id), so positions stay
+ * valid when items are added or removed between requests.
+ */
+export function paginate<T>(all: T[], options: PageOptions<T>): Page<T> {
+  const direction = options.order === "desc" ? -1 : 1
+  const positionOf = (item: T): CursorPosition => ({ key: options.key(item), id: options.id(item) })
+  const compare = (a: CursorPosition, b: CursorPosition) =>
+    direction * (compareValues(a.key, b.key) || compareValues(a.id, b.id))
+
+  const sorted = [...all].sort((a, b) => compare(positionOf(a), positionOf(b)))
+  const sinceCursor = sorted.length > 0 ? encodeCursor(positionOf(sorted[0])) : options.since || null
+
+  let candidates = sorted
+  if (options.since) {
+    const since = decodeCursor(options.since)
+    candidates = candidates.filter((item) => compare(positionOf(item), since) < 0)
+  }
+
+  let start = 0
+  if (options.cursor) {
+    const after = decodeCursor(options.cursor)
+    start = candidates.findIndex((item) => compare(positionOf(item), after) > 0)
+    if (start === -1) start = candidates.length
+  } else if (options.offset) {
+    start = Math.max(0, options.offset)
+  }
+
+  const items = candidates.slice(start, start + options.limit)
+  const hasMore = start + options.limit < candidates.length
+
+  return {
+    items,
+    hasMore,
+    total: sorted.length,
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(positionOf(items[items.length - 1])) : null,
+    sinceCursor,
+  }
+}
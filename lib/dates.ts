@@ -0,0 +1,118 @@
+// Bangladesh has no daylight saving, so a fixed offset is exact
+export const DHAKA_OFFSET = "+06:00"
+
+const BANGLA_DIGITS = "০১২৩৪৫৬৭৮৯"
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, জানুয়ারি: 1, জানুয়ারী: 1,
+  feb: 2, february: 2, ফেব্রুয়ারি: 2, ফেব্রুয়ারী: 2,
+  mar: 3, march: 3, মার্চ: 3,
+  apr: 4, april: 4, এপ্রিল: 4,
+  may: 5, মে: 5,
+  jun: 6, june: 6, জুন: 6,
+  jul: 7, july: 7, জুলাই: 7,
+  aug: 8, august: 8, আগস্ট: 8, আগষ্ট: 8,
+  sep: 9, sept: 9, september: 9, সেপ্টেম্বর: 9,
+  oct: 10, october: 10, অক্টোবর: 10,
+  nov: 11, november: 11, নভেম্বর: 11,
+  dec: 12, december: 12, ডিসেম্বর: 12,
+}
+
+const WEEKDAYS = /\b(mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(day|nesday|urday)?\b,?|(শনি|রবি|সোম|মঙ্গল|বুধ|বৃহস্পতি|শুক্র)বার,?/gi
+// Bangla time-of-day words that mark the afternoon/evening half of a 12-hour clock
+const BANGLA_PM = /(অপরাহ্ণ|অপরাহ্ন|বিকাল|বিকেল|সন্ধ্যা|রাত)/
+const BANGLA_AM = /(পূর্বাহ্ণ|পূর্বাহ্ন|সকাল|ভোর)/
+// "BST" in Bangladeshi feeds is Bangladesh Standard Time, not British Summer Time
+const ZONE_ALIASES: Record<string, string> = { BST: "+06:00", BDT: "+06:00", DHAKA: "+06:00" }
+
+const EXPLICIT_ZONE = /(Z|[+-]\d{2}:?\d{2}|\b(GMT|UTC|UT|[ECMP][SD]T)\b)\s*$/i
+
+function pad(value: number | string) {
+  return String(value).padStart(2, "0")
+}
+
+function asciiDigits(text: string) {
+  return text.replace(/[০-৯]/g, (digit) => String(BANGLA_DIGITS.indexOf(digit)))
+}
+
+function clean(raw: string) {
+  let text = asciiDigits(raw.normalize("NFC")).replace(WEEKDAYS, " ")
+  for (const [alias, offset] of Object.entries(ZONE_ALIASES)) {
+    text = text.replace(new RegExp(`\\b${alias}\\b`, "i"), offset)
+  }
+  return text
+    .replace(/ইং|খ্রিস্টাব্দ|প্রকাশ(িত)?:?|আপডেট:?|সময়:?/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function monthNumber(name: string): number | null {
+  return MONTHS[name.toLowerCase().replace(/\.$/, "")] ?? null
+}
+
+function time(match: string | undefined, meridiem: string) {
+  if (!match) return "00:00:00"
+  const [h, m, s] = match.split(":").map(Number)
+  let hours = h
+  const pm = /\bp\.?m\b/i.test(meridiem) || BANGLA_PM.test(meridiem)
+  const am = /\ba\.?m\b/i.test(meridiem) || BANGLA_AM.test(meridiem)
+  if (pm && hours < 12) hours += 12
+  if (am && hours === 12) hours = 0
+  return `${pad(hours)}:${pad(m || 0)}:${pad(s || 0)}`
+}
+
+function build(year: number, month: number, day: number, clock: string, zone: string): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  const date = new Date(`${year}-${pad(month)}-${pad(day)}T${clock}${zone}`)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Day-first layouts used by Bangladeshi sites, read as Dhaka time
+function parseLocal(text: string, zone: string): Date | null {
+  const clockMatch = text.match(/(\d{1,2}:\d{2}(?::\d{2})?)/)
+  const clock = time(clockMatch?.[1], text)
+
+  // 2024-10-19 10:30[:00]
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (match) return build(+match[1], +match[2], +match[3], clock, zone)
+
+  // 19/10/2024 or 19-10-2024 or 19.10.2024
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/)
+  if (match) return build(+match[3], +match[2], +match[1], clock, zone)
+
+  // 19 October 2024 / 19 অক্টোবর, 2024
+  match = text.match(/(\d{1,2})\s+([^\s\d,]+)[,\s]+(\d{4})/)
+  if (match && monthNumber(match[2])) return build(+match[3], monthNumber(match[2])!, +match[1], clock, zone)
+
+  // October 19, 2024
+  match = text.match(/([^\s\d,]+)\s+(\d{1,2})[,\s]+(\d{4})/)
+  if (match && monthNumber(match[1])) return build(+match[3], monthNumber(match[1])!, +match[2], clock, zone)
+
+  return null
+}
+
+/**
+ * Parses feed dates into a Date: RFC 822/1123, ISO 8601, Bangla numerals and
+ * month names, and common day-first layouts. Anything without an explicit
+ * zone is taken as Asia/Dhaka time. Returns null when nothing matches.
+ */
+export function parseDate(raw: string | null | undefined): Date | null {
+  if (!raw || !raw.trim()) return null
+  const text = clean(raw)
+
+  const zone = text.match(EXPLICIT_ZONE)
+  if (zone) {
+    const native = new Date(text)
+    if (!isNaN(native.getTime())) return native
+
+    const offset = /^[+-]/.test(zone[1]) ? zone[1].replace(/^([+-]\d{2})(\d{2})$/, "$1:$2") : "Z"
+    return parseLocal(text.slice(0, zone.index).trim(), offset)
+  }
+
+  return parseLocal(text, DHAKA_OFFSET)
+}
+
+/** ISO 8601 timestamp for a feed date, or `fallback` (e.g. first-seen time) when it cannot be parsed */
+export function normalizeDate(raw: string | null | undefined, fallback: string): string {
+  return parseDate(raw)?.toISOString() ?? fallback
+}
@@ -0,0 +1,144 @@
+import { parseDate } from "./dates"
+import type { NewsItem, RelatedSource } from "./types"
+
+// Two titles at or above this similarity are treated as the same story
+const SIMILARITY_THRESHOLD = 0.55
+// Stories further apart than this are never merged, however similar
+const CLUSTER_WINDOW_MS = 48 * 60 * 60 * 1000
+// Titles this close are merged if their opening paragraphs match as well
+const LEAD_TITLE_THRESHOLD = 0.3
+const LEAD_LENGTH = 200
+// Tokens shared by more candidates than this are too common to find duplicates with
+const MAX_TOKEN_POSTINGS = 200
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|ref|source|amp)$/i
+
+/**
+ * Normalises a link so the same article reached through different tracking
+ * parameters, hosts or schemes compares equal.
+ */
+export function canonicalUrl(link: string): string {
+  try {
+    const url = new URL(link)
+    url.protocol = "https:"
+    url.hostname = url.hostname.toLowerCase().replace(/^(www|m|amp)\./, "")
+    url.hash = ""
+    for (const key of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key)
+    }
+    url.searchParams.sort()
+    url.pathname = url.pathname.replace(/\/(amp\/?)?$/, "") || "/"
+    return url.toString()
+  } catch {
+    return link.trim()
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter((token) => token.length > 1)
+}
+
+function leadText(description: string) {
+  return description.replace(/<[^>]*>/g, " ").replace(/&\w+;/g, " ").slice(0, LEAD_LENGTH)
+}
+
+// Character trigrams tolerate Bangla inflections (e.g. -এর, -কে) that defeat whole-word matching
+function trigrams(tokens: string[]): Set<string> {
+  const grams = new Set<string>()
+  for (const token of tokens) {
+    const padded = ` ${token} `
+    const chars = Array.from(padded)
+    for (let i = 0; i + 3 <= chars.length; i++) grams.add(chars.slice(i, i + 3).join(""))
+  }
+  return grams
+}
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const value of a) if (b.has(value)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+interface Cluster<T> {
+  head: T
+  time: number
+  words: Set<string>
+  grams: Set<string>
+  lead: Set<string>
+  related: RelatedSource[]
+  domains: Set<string>
+}
+
+function itemTime(item: NewsItem) {
+  return parseDate(item.pubDate)?.getTime() ?? 0
+}
+
+/**
+ * Drops exact duplicates (same guid or canonical link) and folds stories that
+ * other outlets also ran into the first copy seen, listing the rest under
+ * `alsoCoveredBy`. Items are expected newest first.
+ */
+export function clusterItems<T extends NewsItem>(items: T[]): T[] {
+  const seenKeys = new Set<string>()
+  const clusters: Cluster<T>[] = []
+  const postings = new Map<string, number[]>()
+
+  for (const item of items) {
+    const canonical = canonicalUrl(item.link)
+    if (seenKeys.has(canonical) || (item.guid && seenKeys.has(item.guid))) continue
+    seenKeys.add(canonical)
+    if (item.guid) seenKeys.add(item.guid)
+
+    const tokens = tokenize(item.title)
+    const words = new Set(tokens)
+    const grams = trigrams(tokens)
+    const lead = trigrams(tokenize(leadText(item.description)))
+    const time = itemTime(item)
+
+    const candidates = new Set<number>()
+    for (const word of words) {
+      const list = postings.get(word)
+      if (list && list.length <= MAX_TOKEN_POSTINGS) list.forEach((index) => candidates.add(index))
+    }
+
+    let match: Cluster<T> | null = null
+    let best = SIMILARITY_THRESHOLD
+    for (const index of candidates) {
+      const cluster = clusters[index]
+      if (cluster.domains.has(item.domain)) continue
+      if (time && cluster.time && Math.abs(cluster.time - time) > CLUSTER_WINDOW_MS) continue
+
+      let similarity = Math.max(jaccard(words, cluster.words), jaccard(grams, cluster.grams))
+      if (similarity >= LEAD_TITLE_THRESHOLD && similarity < SIMILARITY_THRESHOLD) {
+        similarity = Math.max(similarity, jaccard(lead, cluster.lead))
+      }
+      if (similarity >= best) {
+        best = similarity
+        match = cluster
+      }
+    }
+
+    if (match) {
+      match.related.push({ domain: item.domain, link: item.link, title: item.title })
+      match.domains.add(item.domain)
+      continue
+    }
+
+    const index = clusters.length
+    clusters.push({ head: item, time, words, grams, lead, related: [], domains: new Set([item.domain]) })
+    for (const word of words) {
+      const list = postings.get(word) || []
+      list.push(index)
+      postings.set(word, list)
+    }
+  }
+
+  return clusters.map((cluster) =>
+    cluster.related.length > 0 ? { ...cluster.head, alsoCoveredBy: cluster.related } : cluster.head
+  )
+}
@@ -0,0 +1,103 @@
+import { readJSON, withFileLock, writeJSON } from "./json-file"
+
+export interface FeedHealth {
+  feedId: string
+  url: string
+  lastAttempt: string | null
+  lastSuccess: string | null
+  lastStatus: number | null
+  lastLatencyMs: number | null
+  lastItemCount: number | null
+  lastError: string | null
+  consecutiveFailures: number
+  /** While set and in the future, scheduled ingests skip this feed */
+  backoffUntil: string | null
+}
+
+export interface FetchOutcome {
+  feedId: string
+  url: string
+  status: number | null
+  latencyMs: number
+  itemCount: number | null
+  error: string | null
+}
+
+export type HealthState = "healthy" | "failing" | "backing-off" | "unknown"
+
+const HEALTH_FILE = "feed-health.json"
+// Failures tolerated before a feed is backed off, and the backoff bounds
+const FAILURES_BEFORE_BACKOFF = 3
+const BASE_BACKOFF_MS = 15 * 60 * 1000
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000
+
+function emptyHealth(feedId: string, url: string): FeedHealth {
+  return {
+    feedId,
+    url,
+    lastAttempt: null,
+    lastSuccess: null,
+    lastStatus: null,
+    lastLatencyMs: null,
+    lastItemCount: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    backoffUntil: null,
+  }
+}
+
+export async function getFeedHealth(): Promise<Record<string, FeedHealth>> {
+  return readJSON<Record<string, FeedHealth>>(HEALTH_FILE, {})
+}
+
+/** Whether a feed is currently backed off after repeated failures */
+export function isBackedOff(health: FeedHealth | undefined, now = Date.now()): boolean {
+  return !!health?.backoffUntil && new Date(health.backoffUntil).getTime() > now
+}
+
+export function healthState(health: FeedHealth | undefined): HealthState {
+  if (!health || !health.lastAttempt) return "unknown"
+  if (isBackedOff(health)) return "backing-off"
+  return health.consecutiveFailures > 0 ? "failing" : "healthy"
+}
+
+/**
+ * Records the outcome of one ingest run. Outcomes are written in a single
+ * batch so feeds fetched in parallel do not overwrite each other.
+ */
+export function recordOutcomes(outcomes: FetchOutcome[]): Promise<void> {
+  if (outcomes.length === 0) return Promise.resolve()
+
+  return withFileLock(HEALTH_FILE, async () => {
+    const current = await getFeedHealth()
+    const next = { ...current }
+    const now = new Date()
+
+    for (const outcome of outcomes) {
+      const previous = current[outcome.feedId] || emptyHealth(outcome.feedId, outcome.url)
+      const failed = outcome.error !== null
+      const consecutiveFailures = failed ? previous.consecutiveFailures + 1 : 0
+
+      let backoffUntil: string | null = null
+      if (consecutiveFailures >= FAILURES_BEFORE_BACKOFF) {
+        const delay = Math.min(BASE_BACKOFF_MS * 2 ** (consecutiveFailures - FAILURES_BEFORE_BACKOFF), MAX_BACKOFF_MS)
+        backoffUntil = new Date(now.getTime() + delay).toISOString()
+      }
+
+      next[outcome.feedId] = {
+        ...previous,
+        url: outcome.url,
+        lastAttempt: now.toISOString(),
+        lastSuccess: failed ? previous.lastSuccess : now.toISOString(),
+        lastStatus: outcome.status,
+        lastLatencyMs: outcome.latencyMs,
+        lastItemCount: outcome.itemCount,
+        lastError: outcome.error,
+        consecutiveFailures,
+        backoffUntil,
+      }
+    }
+
+    await writeJSON(HEALTH_FILE, next)
+  })
+}
@@ -0,0 +1,74 @@
+import { articleKey, articleTime, getArticles, withISODate, type StoredArticle } from "./article-store"
+import { itemCategories } from "./categories"
+import { encodeCursor, paginate, timeKey, type Page, type PageOptions } from "./cursor"
+import { clusterItems } from "./dedupe"
+import { ensureSanitized } from "./sanitize"
+
+export interface FeedQuery {
+  /** Fold near-duplicate stories from different outlets into one item */
+  cluster?: boolean
+  category?: string | null
+}
+
+// The store hands back the same array until its file changes, so clustering runs once per ingest
+const clusterCache = new WeakMap<StoredArticle[], StoredArticle[]>()
+
+function clusteredArticles(articles: StoredArticle[]): StoredArticle[] {
+  let clustered = clusterCache.get(articles)
+  if (!clustered) {
+    const newestFirst = [...articles].sort((a, b) => articleTime(b) - articleTime(a))
+    clustered = clusterItems(newestFirst)
+    clusterCache.set(articles, clustered)
+  }
+  return clustered
+}
+
+/** The articles a language feed lists, before paging */
+export async function feedArticles(language: string, { cluster = true, category = null }: FeedQuery = {}): Promise<StoredArticle[]> {
+  const articles = await getArticles(language)
+  const listed = cluster ? clusteredArticles(articles) : articles
+  // Articles stored before categories were captured are classified from their link
+  return category ? listed.filter((item) => (item.categories ?? itemCategories(item)).includes(category)) : listed
+}
+
+/** Pages through a feed newest first; items come back with ISO dates and sanitized bodies */
+export function pageFeed(
+  articles: StoredArticle[],
+  options: Pick<PageOptions<StoredArticle>, "limit" | "cursor" | "since" | "offset">
+): Page<StoredArticle> {
+  const page = paginate(articles, { key: articleTime, id: articleKey, order: "desc", ...options })
+  return { ...page, items: page.items.map((item) => ensureSanitized(withISODate(item))) }
+}
+
+// Ingest order: when this server first stored each article, whatever date its feed gave it
+const INGEST_ORDER: Pick<PageOptions<StoredArticle>, "key" | "id" | "order"> = {
+  key: (article) => timeKey(article.firstSeen),
+  id: articleKey,
+  order: "desc",
+}
+
+/** Cursor at the most recently ingested article; /api/rss/stream announces what is stored after it */
+export function ingestCursor(articles: StoredArticle[]): string | null {
+  return paginate(articles, { ...INGEST_ORDER, limit: 0 }).sinceCursor
+}
+
+/**
+ * The next `limit` articles stored after the `since` ingest cursor, newest
+ * published first. Late-ingested stories with older publish dates are
+ * included, which paging by publish time would miss. `sinceCursor` sits at
+ * the last of them to be stored, so a batch larger than `limit` is read in
+ * several calls while `hasMore` is set.
+ */
+export function ingestedSince(
+  articles: StoredArticle[],
+  { limit, since }: { limit: number; since?: string | null }
+): Pick<Page<StoredArticle>, "items" | "hasMore" | "sinceCursor"> {
+  const page = paginate(articles, { ...INGEST_ORDER, order: "asc", limit, cursor: since })
+  const last = page.items[page.items.length - 1]
+  const items = [...page.items].sort((a, b) => articleTime(b) - articleTime(a))
+  return {
+    items: items.map((item) => ensureSanitized(withISODate(item))),
+    hasMore: page.hasMore,
+    sinceCursor: last ? encodeCursor({ key: INGEST_ORDER.key(last), id: articleKey(last) }) : since || null,
+  }
+}
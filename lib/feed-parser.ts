@@ -0,0 +1,203 @@
+import { parseString } from "xml2js"
+import { promisify } from "util"
+import type { NewsItem } from "./types"
+
+const parseXML = promisify(parseString)
+
+export type FeedFormat = "rss" | "rdf" | "atom" | "json"
+
+// xml2js wraps text in `{ _: "...", $: {...} }` whenever the element has attributes
+function text(node: any): string {
+  if (node == null) return ""
+  if (Array.isArray(node)) return text(node[0])
+  if (typeof node === "string") return node.trim()
+  if (typeof node._ === "string") return node._.trim()
+  return ""
+}
+
+function attr(node: any, name: string): string {
+  const first = Array.isArray(node) ? node[0] : node
+  return first?.$?.[name] || ""
+}
+
+function labels(values: string[]): string[] {
+  return [...new Set(values.map((value) => value.trim()).filter(Boolean))]
+}
+
+function isImage(type: string, url: string) {
+  return type ? type.startsWith("image/") : /\.(jpe?g|png|gif|webp|avif)(\?|$)/i.test(url)
+}
+
+function mediaImage(item: any): string {
+  const mediaContent = (item["media:content"] || []).find((media: any) => {
+    const medium = media?.$?.medium
+    return !medium || medium === "image"
+  })
+  if (mediaContent?.$?.url) return mediaContent.$.url
+
+  const thumbnail = attr(item["media:thumbnail"], "url")
+  if (thumbnail) return thumbnail
+
+  const group = item["media:group"]?.[0]
+  if (group) return mediaImage(group)
+
+  return ""
+}
+
+function rssImage(item: any): string {
+  const media = mediaImage(item)
+  if (media) return media
+
+  const enclosure = (item.enclosure || []).find((enc: any) => isImage(enc?.$?.type || "", enc?.$?.url || ""))
+  return enclosure?.$?.url || ""
+}
+
+function toNewsItem(fields: Omit<NewsItem, "domain" | "needsImage">, domain: string): NewsItem {
+  return {
+    ...fields,
+    guid: fields.guid || fields.link,
+    domain,
+    needsImage: !fields.image && !!fields.link,
+  }
+}
+
+function parseRSSItems(items: any[], domain: string): NewsItem[] {
+  return items.map((item) => {
+    const link = text(item.link)
+    const contentEncoded = text(item["content:encoded"])
+
+    return toNewsItem(
+      {
+        title: text(item.title),
+        link,
+        description: contentEncoded || text(item.description),
+        // RSS 1.0 feeds carry their date in Dublin Core
+        pubDate: text(item.pubDate) || text(item["dc:date"]),
+        guid: text(item.guid) || attr(item, "rdf:about"),
+        image: rssImage(item),
+        tags: labels([...(item.category || []), ...(item["dc:subject"] || [])].map(text)),
+      },
+      domain
+    )
+  })
+}
+
+function atomLink(entry: any): { link: string; image: string } {
+  const links: any[] = entry.link || []
+  const alternate =
+    links.find((l) => !l?.$?.rel || l.$.rel === "alternate") || links.find((l) => l?.$?.rel !== "enclosure")
+  const enclosure = links.find((l) => l?.$?.rel === "enclosure" && isImage(l.$.type || "", l.$.href || ""))
+
+  return {
+    link: alternate?.$?.href || text(alternate),
+    image: enclosure?.$?.href || "",
+  }
+}
+
+function parseAtomEntries(entries: any[], domain: string): NewsItem[] {
+  return entries.map((entry) => {
+    const { link, image } = atomLink(entry)
+
+    return toNewsItem(
+      {
+        title: text(entry.title),
+        link,
+        description: text(entry.content) || text(entry.summary) || text(entry["media:group"]?.[0]?.["media:description"]),
+        pubDate: text(entry.published) || text(entry.updated),
+        guid: text(entry.id),
+        image: mediaImage(entry) || image,
+        tags: labels((entry.category || []).map((category: any) => attr(category, "label") || attr(category, "term"))),
+      },
+      domain
+    )
+  })
+}
+
+function parseJSONFeedItems(feed: any, domain: string): NewsItem[] {
+  const items: any[] = Array.isArray(feed?.items) ? feed.items : []
+
+  return items.map((item) => {
+    const attachment = (item.attachments || []).find((a: any) => isImage(a?.mime_type || "", a?.url || ""))
+
+    return toNewsItem(
+      {
+        title: item.title || "",
+        link: item.url || item.external_url || "",
+        description: item.content_html || item.content_text || item.summary || "",
+        pubDate: item.date_published || item.date_modified || "",
+        guid: item.id != null ? String(item.id) : "",
+        image: item.image || item.banner_image || attachment?.url || "",
+        tags: labels(Array.isArray(item.tags) ? item.tags.map(String) : []),
+      },
+      domain
+    )
+  })
+}
+
+export function detectFormat(parsed: any): FeedFormat | null {
+  if (parsed?.rss) return "rss"
+  if (parsed?.["rdf:RDF"]) return "rdf"
+  if (parsed?.feed) return "atom"
+  if (typeof parsed?.version === "string" && parsed.version.includes("jsonfeed.org")) return "json"
+  return null
+}
+
+export interface ParsedFeed {
+  format: FeedFormat
+  title: string
+  items: NewsItem[]
+}
+
+function feedTitle(parsed: any, format: FeedFormat): string {
+  switch (format) {
+    case "rss":
+      return text(parsed.rss.channel?.[0]?.title)
+    case "rdf":
+      return text(parsed["rdf:RDF"].channel?.[0]?.title)
+    case "atom":
+      return text(parsed.feed.title)
+    case "json":
+      return parsed.title || ""
+  }
+}
+
+/**
+ * Parses an RSS 2.0, RSS 1.0 (RDF), Atom or JSON Feed document into news items.
+ * Items without a title or link are dropped.
+ */
+export async function parseFeedDocument(body: string, sourceUrl: string): Promise<ParsedFeed> {
+  const domain = new URL(sourceUrl).hostname
+  const trimmed = body.trim()
+
+  const parsed = trimmed.startsWith("{") ? JSON.parse(trimmed) : ((await parseXML(trimmed)) as any)
+  const format = detectFormat(parsed)
+
+  let items: NewsItem[]
+  switch (format) {
+    case "rss":
+      items = parseRSSItems(parsed.rss.channel?.[0]?.item || [], domain)
+      break
+    case "rdf":
+      // RDF puts <item> next to <channel> rather than inside it
+      items = parseRSSItems(parsed["rdf:RDF"].item || [], domain)
+      break
+    case "atom":
+      items = parseAtomEntries(parsed.feed.entry || [], domain)
+      break
+    case "json":
+      items = parseJSONFeedItems(parsed, domain)
+      break
+    default:
+      throw new Error(`Unrecognised feed format at ${sourceUrl}`)
+  }
+
+  return {
+    format,
+    title: feedTitle(parsed, format),
+    items: items.filter((item) => item.title && item.link),
+  }
+}
+
+export async function parseFeed(body: string, sourceUrl: string): Promise<NewsItem[]> {
+  return (await parseFeedDocument(body, sourceUrl)).items
+}
@@ -0,0 +1,219 @@
+import { createHash } from "crypto"
+import { fetchFeed } from "./fetch-feed"
+import { readJSON, withFileLock, writeJSON } from "./json-file"
+import { isPublicUrl } from "./public-url"
+
+export interface FeedSource {
+  id: string
+  url: string
+  name: string
+  language: string
+  category: string | null
+  /** Lower bound on how often the feed is fetched, whatever its cache headers say */
+  minRefreshMinutes: number | null
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface FeedInput {
+  url: string
+  name?: string
+  language: string
+  category?: string | null
+  minRefreshMinutes?: number | null
+  enabled?: boolean
+}
+
+export interface FeedValidation {
+  title: string
+  format: string
+  itemCount: number
+}
+
+export class FeedRegistryError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message)
+    this.name = "FeedRegistryError"
+  }
+}
+
+const REGISTRY_FILE = "feeds.json"
+// Languages become file names in the article store, so keep them to plain slugs
+const LANGUAGE_PATTERN = /^[a-z][a-z-]{1,30}$/
+
+function feedId(url: string) {
+  return createHash("sha1").update(url).digest("hex").slice(0, 12)
+}
+
+// Seed entries are either a bare URL or an object carrying the same fields as the registry
+type SeedEntry = string | { url: string; name?: string; category?: string; minRefreshMinutes?: number }
+
+interface SeedGroup {
+  language: string
+  /** Default for every feed in the group */
+  minRefreshMinutes?: number
+  urls: SeedEntry[]
+}
+
+async function seedFeeds(): Promise<FeedSource[]> {
+  const urlsData = await import("@/data/url.json")
+  const now = new Date().toISOString()
+
+  return urlsData.feeds.flatMap((group: SeedGroup) =>
+    group.urls.map((entry) => {
+      const seed = typeof entry === "string" ? { url: entry } : entry
+      return {
+        id: feedId(seed.url),
+        url: seed.url,
+        name: seed.name || new URL(seed.url).hostname.replace("www.", ""),
+        language: group.language,
+        category: seed.category || null,
+        minRefreshMinutes: seed.minRefreshMinutes ?? group.minRefreshMinutes ?? null,
+        enabled: true,
+        createdAt: now,
+        updatedAt: now,
+      }
+    })
+  )
+}
+
+/** Returns the registry, seeding it from `data/url.json` on first use */
+export async function listFeeds(): Promise<FeedSource[]> {
+  const stored = await readJSON<FeedSource[] | null>(REGISTRY_FILE, null)
+  return stored || seedFeeds()
+}
+
+export async function getFeed(id: string): Promise<FeedSource | null> {
+  return (await listFeeds()).find((feed) => feed.id === id) || null
+}
+
+function normalizeUrl(value: unknown): string {
+  try {
+    const url = new URL(String(value || "").trim())
+    if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error()
+    return url.toString()
+  } catch {
+    throw new FeedRegistryError("A valid http(s) feed URL is required", 400)
+  }
+}
+
+function normalizeRefresh(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null
+  const minutes = Number(value)
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new FeedRegistryError("minRefreshMinutes must be a non-negative number", 400)
+  }
+  return minutes
+}
+
+function normalizeLanguage(value: unknown): string {
+  const language = String(value || "").trim().toLowerCase()
+  if (!LANGUAGE_PATTERN.test(language)) {
+    throw new FeedRegistryError("Language must be a lowercase name such as \"bangla\"", 400)
+  }
+  return language
+}
+
+/** Fetches and parses a candidate feed, rejecting anything that yields no items */
+export async function validateFeedUrl(url: string): Promise<FeedValidation> {
+  if (!(await isPublicUrl(url))) {
+    throw new FeedRegistryError(`${url} does not resolve to a public address`, 400)
+  }
+  try {
+    const feed = await fetchFeed(url)
+    if (feed.items.length === 0) {
+      throw new FeedRegistryError(`${url} parsed as ${feed.format} but contains no items`, 422)
+    }
+    return { title: feed.title, format: feed.format, itemCount: feed.items.length }
+  } catch (error) {
+    if (error instanceof FeedRegistryError) throw error
+    throw new FeedRegistryError(`${url} is not a readable feed: ${(error as Error).message}`, 422)
+  }
+}
+
+export function addFeed(input: FeedInput): Promise<{ feed: FeedSource; validation: FeedValidation }> {
+  return withFileLock(REGISTRY_FILE, async () => {
+    const url = normalizeUrl(input.url)
+    const language = normalizeLanguage(input.language)
+    const feeds = await listFeeds()
+
+    if (feeds.some((feed) => feed.url === url)) {
+      throw new FeedRegistryError(`${url} is already registered`, 409)
+    }
+
+    const validation = await validateFeedUrl(url)
+    const now = new Date().toISOString()
+    const feed: FeedSource = {
+      id: feedId(url),
+      url,
+      name: String(input.name ?? "").trim() || validation.title || new URL(url).hostname.replace("www.", ""),
+      language,
+      category: String(input.category ?? "").trim() || null,
+      minRefreshMinutes: normalizeRefresh(input.minRefreshMinutes),
+      enabled: input.enabled === undefined ? true : Boolean(input.enabled),
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    await writeJSON(REGISTRY_FILE, [...feeds, feed])
+    return { feed, validation }
+  })
+}
+
+/** Applies a partial update; a changed URL is re-validated before it is saved */
+export function updateFeed(id: string, patch: Partial<FeedInput>): Promise<FeedSource> {
+  return withFileLock(REGISTRY_FILE, async () => {
+    const feeds = await listFeeds()
+    const existing = feeds.find((feed) => feed.id === id)
+    if (!existing) throw new FeedRegistryError(`Feed ${id} not found`, 404)
+
+    const updated: FeedSource = { ...existing, updatedAt: new Date().toISOString() }
+
+    if (patch.url !== undefined) {
+      const url = normalizeUrl(patch.url)
+      if (url !== existing.url) {
+        if (feeds.some((feed) => feed.url === url)) {
+          throw new FeedRegistryError(`${url} is already registered`, 409)
+        }
+        await validateFeedUrl(url)
+        updated.url = url
+      }
+    }
+    if (patch.language !== undefined) updated.language = normalizeLanguage(patch.language)
+    if (patch.name !== undefined) updated.name = String(patch.name).trim() || existing.name
+    if (patch.category !== undefined) updated.category = patch.category ? String(patch.category).trim() : null
+    if (patch.minRefreshMinutes !== undefined) updated.minRefreshMinutes = normalizeRefresh(patch.minRefreshMinutes)
+    if (patch.enabled !== undefined) updated.enabled = Boolean(patch.enabled)
+
+    await writeJSON(
+      REGISTRY_FILE,
+      feeds.map((feed) => (feed.id === id ? updated : feed))
+    )
+    return updated
+  })
+}
+
+export function deleteFeed(id: string): Promise<void> {
+  return withFileLock(REGISTRY_FILE, async () => {
+    const feeds = await listFeeds()
+    if (!feeds.some((feed) => feed.id === id)) throw new FeedRegistryError(`Feed ${id} not found`, 404)
+    await writeJSON(
+      REGISTRY_FILE,
+      feeds.filter((feed) => feed.id !== id)
+    )
+  })
+}
+
+export async function getLanguages(): Promise<string[]> {
+  const feeds = await listFeeds()
+  return [...new Set(feeds.filter((feed) => feed.enabled).map((feed) => feed.language))]
+}
+
+export async function getLanguageFeeds(language: string): Promise<FeedSource[]> {
+  const feeds = await listFeeds()
+  return feeds.filter((feed) => feed.enabled && feed.language === language)
+}
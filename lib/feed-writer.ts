@@ -0,0 +1,186 @@
+import type { NewsItem } from "./types"
+
+export type OutputFormat = "rss" | "atom" | "json-feed"
+
+export const OUTPUT_FORMATS: Record<OutputFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  "json-feed": "application/feed+json; charset=utf-8",
+}
+
+export interface FeedMeta {
+  title: string
+  description: string
+  /** Page the feed belongs to */
+  siteUrl: string
+  /** URL this feed is served from */
+  feedUrl: string
+  /** BCP 47 code, e.g. "bn" */
+  language: string
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+}
+
+export function isOutputFormat(format: string | null): format is OutputFormat {
+  return !!format && Object.prototype.hasOwnProperty.call(OUTPUT_FORMATS, format)
+}
+
+function escapeXML(text: string) {
+  return text
+    .replace(/[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+function imageType(url: string) {
+  const extension = url.split("?")[0].split(".").pop()?.toLowerCase() || ""
+  return IMAGE_TYPES[extension] || "image/jpeg"
+}
+
+function validDate(date: string): Date | null {
+  const parsed = new Date(date)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+function sourceUrl(item: NewsItem) {
+  return `https://${item.domain}/`
+}
+
+// Sanitized bodies load images through this site's /api/image, which readers elsewhere can only reach by full URL
+function absoluteImages(html: string, meta: FeedMeta) {
+  const origin = new URL(meta.siteUrl).origin
+  return html.replace(/(<img\b[^>]*?\ssrc=")(\/(?!\/)[^"]*")/g, (_, start, path) => `${start}${origin}${path}`)
+}
+
+// RFC 822 as required by RSS 2.0, e.g. "Mon, 01 Jan 2024 00:00:00 GMT"
+function rfc822(date: Date) {
+  return date.toUTCString()
+}
+
+// RFC 3339 as required by Atom and JSON Feed
+function rfc3339(date: Date) {
+  return date.toISOString()
+}
+
+function latest(items: NewsItem[]): Date {
+  const times = items.map((item) => validDate(item.pubDate)?.getTime() || 0)
+  return new Date(Math.max(0, ...times) || Date.now())
+}
+
+export function toRSS(items: NewsItem[], meta: FeedMeta): string {
+  const entries = items.map((item) => {
+    const date = validDate(item.pubDate)
+    return [
+      "<item>",
+      `<title>${escapeXML(item.title)}</title>`,
+      `<link>${escapeXML(item.link)}</link>`,
+      `<guid isPermaLink="${item.guid === item.link}">${escapeXML(item.guid || item.link)}</guid>`,
+      `<description>${escapeXML(absoluteImages(item.description, meta))}</description>`,
+      date ? `<pubDate>${rfc822(date)}</pubDate>` : "",
+      `<source url="${escapeXML(sourceUrl(item))}">${escapeXML(item.domain)}</source>`,
+      ...(item.categories || []).map((category) => `<category>${escapeXML(category)}</category>`),
+      item.image
+        ? `<enclosure url="${escapeXML(item.image)}" length="0" type="${imageType(item.image)}"/>` +
+          `<media:content url="${escapeXML(item.image)}" medium="image"/>`
+        : "",
+      "</item>",
+    ].join("")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/">',
+    "<channel>",
+    `<title>${escapeXML(meta.title)}</title>`,
+    `<link>${escapeXML(meta.siteUrl)}</link>`,
+    `<description>${escapeXML(meta.description)}</description>`,
+    `<language>${escapeXML(meta.language)}</language>`,
+    `<lastBuildDate>${rfc822(latest(items))}</lastBuildDate>`,
+    `<atom:link href="${escapeXML(meta.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...entries,
+    "</channel>",
+    "</rss>",
+  ].join("\n")
+}
+
+export function toAtom(items: NewsItem[], meta: FeedMeta): string {
+  const entries = items.map((item) => {
+    const date = validDate(item.pubDate) || latest(items)
+    return [
+      "<entry>",
+      `<title>${escapeXML(item.title)}</title>`,
+      `<link rel="alternate" href="${escapeXML(item.link)}"/>`,
+      `<id>${escapeXML(item.guid || item.link)}</id>`,
+      `<updated>${rfc3339(date)}</updated>`,
+      `<published>${rfc3339(date)}</published>`,
+      `<author><name>${escapeXML(item.domain)}</name><uri>${escapeXML(sourceUrl(item))}</uri></author>`,
+      `<content type="html">${escapeXML(absoluteImages(item.description, meta))}</content>`,
+      ...(item.categories || []).map((category) => `<category term="${escapeXML(category)}"/>`),
+      item.image
+        ? `<link rel="enclosure" href="${escapeXML(item.image)}" type="${imageType(item.image)}"/>` +
+          `<media:thumbnail url="${escapeXML(item.image)}"/>`
+        : "",
+      "</entry>",
+    ].join("")
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/" xml:lang="${escapeXML(meta.language)}">`,
+    `<title>${escapeXML(meta.title)}</title>`,
+    `<subtitle>${escapeXML(meta.description)}</subtitle>`,
+    `<id>${escapeXML(meta.feedUrl)}</id>`,
+    `<link rel="self" href="${escapeXML(meta.feedUrl)}"/>`,
+    `<link rel="alternate" href="${escapeXML(meta.siteUrl)}"/>`,
+    `<updated>${rfc3339(latest(items))}</updated>`,
+    ...entries,
+    "</feed>",
+  ].join("\n")
+}
+
+export function toJSONFeed(items: NewsItem[], meta: FeedMeta): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: meta.title,
+    description: meta.description,
+    home_page_url: meta.siteUrl,
+    feed_url: meta.feedUrl,
+    language: meta.language,
+    items: items.map((item) => {
+      const date = validDate(item.pubDate)
+      return {
+        id: item.guid || item.link,
+        url: item.link,
+        title: item.title,
+        content_html: absoluteImages(item.description, meta),
+        date_published: date ? rfc3339(date) : undefined,
+        image: item.image || undefined,
+        authors: [{ name: item.domain, url: sourceUrl(item) }],
+        tags: item.categories?.length ? item.categories : undefined,
+        attachments: item.image ? [{ url: item.image, mime_type: imageType(item.image) }] : undefined,
+      }
+    }),
+  })
+}
+
+export function serializeFeed(format: OutputFormat, items: NewsItem[], meta: FeedMeta): string {
+  switch (format) {
+    case "rss":
+      return toRSS(items, meta)
+    case "atom":
+      return toAtom(items, meta)
+    case "json-feed":
+      return toJSONFeed(items, meta)
+  }
+}
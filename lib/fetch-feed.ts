@@ -0,0 +1,48 @@
+import { parseFeedDocument, type ParsedFeed } from "./feed-parser"
+import { cachedFetch, type CachedResponse } from "./http-cache"
+
+export class FeedFetchError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    public readonly kind: "http" | "parse" | "network"
+  ) {
+    super(message)
+    this.name = "FeedFetchError"
+  }
+}
+
+export interface FetchedFeed extends ParsedFeed {
+  status: number
+  fromCache: boolean
+}
+
+/**
+ * Downloads and parses a feed through the HTTP cache, throwing a
+ * FeedFetchError on network, HTTP or parse failures.
+ */
+export async function fetchFeed(url: string, minRefreshMs?: number): Promise<FetchedFeed> {
+  let response: CachedResponse
+  try {
+    response = await cachedFetch(url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)",
+        Accept: "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8",
+      },
+      minRefreshMs,
+    })
+  } catch (error) {
+    throw new FeedFetchError(`Failed to fetch ${url}: ${(error as Error).message}`, null, "network")
+  }
+
+  if (!response.ok) {
+    throw new FeedFetchError(`Failed to fetch ${url}: ${response.status}`, response.status, "http")
+  }
+
+  try {
+    const parsed = await parseFeedDocument(response.text(), url)
+    return { ...parsed, status: response.status, fromCache: response.fromCache }
+  } catch (error) {
+    throw new FeedFetchError(`Failed to parse ${url}: ${(error as Error).message}`, response.status, "parse")
+  }
+}
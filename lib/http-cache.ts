@@ -0,0 +1,169 @@
+import { createHash } from "crypto"
+import { readJSON, writeJSON } from "./json-file"
+import { fetchPublic } from "./public-url"
+
+export interface CachedFetchOptions {
+  headers?: Record<string, string>
+  /** Never go upstream more often than this, whatever the server's cache headers say */
+  minRefreshMs?: number
+  /** Freshness assumed when the server sends no Cache-Control or Expires */
+  defaultTtlMs?: number
+  timeoutMs?: number
+}
+
+export interface CachedResponse {
+  url: string
+  /** Upstream status of the last real response (200 when served from a 304) */
+  status: number
+  ok: boolean
+  body: Buffer
+  /** True when no request went upstream, or it came back 304 */
+  fromCache: boolean
+  headers: Record<string, string>
+  text(): string
+}
+
+interface CacheEntry {
+  url: string
+  status: number
+  etag: string | null
+  lastModified: string | null
+  fetchedAt: number
+  expiresAt: number
+  /**
+   * Set from Retry-After on 429/503; no upstream requests before this. Without
+   * an earlier copy the entry holds just the error status and an empty body.
+   */
+  retryAfter: number | null
+  headers: Record<string, string>
+  body: string
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+const DEFAULT_TIMEOUT_MS = 15000
+const KEPT_HEADERS = ["content-type", "last-modified", "etag"]
+
+function entryName(url: string) {
+  return `http-cache/${createHash("sha1").update(url).digest("hex")}.json`
+}
+
+function parseRetryAfter(value: string | null, now: number): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return now + seconds * 1000
+  const date = new Date(value).getTime()
+  return isNaN(date) ? null : date
+}
+
+function freshUntil(response: Response, now: number, defaultTtlMs: number): { expiresAt: number; store: boolean } {
+  const cacheControl = response.headers.get("cache-control")?.toLowerCase() || ""
+  if (cacheControl.includes("no-store")) return { expiresAt: now, store: false }
+  if (cacheControl.includes("no-cache")) return { expiresAt: now, store: true }
+
+  const maxAge = cacheControl.match(/(?:^|,)\s*max-age=(\d+)/)
+  if (maxAge) return { expiresAt: now + Number(maxAge[1]) * 1000, store: true }
+
+  const expires = new Date(response.headers.get("expires") || "").getTime()
+  if (!isNaN(expires)) return { expiresAt: expires, store: true }
+
+  return { expiresAt: now + defaultTtlMs, store: true }
+}
+
+function toResponse(entry: CacheEntry, fromCache: boolean): CachedResponse {
+  const body = Buffer.from(entry.body, "base64")
+  return {
+    url: entry.url,
+    status: entry.status,
+    ok: entry.status >= 200 && entry.status < 300,
+    body,
+    fromCache,
+    headers: entry.headers,
+    text: () => body.toString("utf8"),
+  }
+}
+
+/**
+ * Fetches a URL through a persistent cache. Fresh entries are served without
+ * a request; stale ones are revalidated with If-None-Match/If-Modified-Since.
+ * Cache-Control, Expires and Retry-After are honoured, and `minRefreshMs`
+ * puts a floor under how often a source is contacted. Only public hosts are
+ * fetched (see fetchPublic).
+ */
+export async function cachedFetch(url: string, options: CachedFetchOptions = {}): Promise<CachedResponse> {
+  const name = entryName(url)
+  const entry = await readJSON<CacheEntry | null>(name, null)
+  const now = Date.now()
+
+  if (entry) {
+    const refreshAt = Math.max(entry.expiresAt, entry.fetchedAt + (options.minRefreshMs || 0), entry.retryAfter || 0)
+    if (now < refreshAt) return toResponse(entry, true)
+  }
+
+  const headers: Record<string, string> = { ...options.headers }
+  if (entry?.etag) headers["If-None-Match"] = entry.etag
+  if (entry?.lastModified) headers["If-Modified-Since"] = entry.lastModified
+
+  // Registered sources could later redirect to an internal host, so every hop is checked
+  const response = await fetchPublic(url, {
+    headers,
+    cache: "no-store",
+    signal: AbortSignal.timeout(options.timeoutMs || DEFAULT_TIMEOUT_MS),
+  })
+
+  const { expiresAt, store } = freshUntil(response, now, options.defaultTtlMs ?? DEFAULT_TTL_MS)
+
+  if (response.status === 304 && entry) {
+    const revalidated = { ...entry, fetchedAt: now, expiresAt, retryAfter: null }
+    await writeJSON(name, revalidated)
+    return toResponse(revalidated, true)
+  }
+
+  if (response.status === 429 || response.status === 503) {
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"), now)
+    if (entry) {
+      const throttled = { ...entry, retryAfter }
+      await writeJSON(name, throttled)
+      return toResponse(throttled, true)
+    }
+    // Nothing cached to fall back on, but the back-off still has to hold: keep an empty error entry until then
+    if (retryAfter) {
+      await response.body?.cancel()
+      const throttled: CacheEntry = {
+        url,
+        status: response.status,
+        etag: null,
+        lastModified: null,
+        fetchedAt: now,
+        expiresAt: now,
+        retryAfter,
+        headers: {},
+        body: "",
+      }
+      await writeJSON(name, throttled)
+      return toResponse(throttled, false)
+    }
+  }
+
+  const body = Buffer.from(await response.arrayBuffer())
+  const keptHeaders: Record<string, string> = {}
+  for (const header of KEPT_HEADERS) {
+    const value = response.headers.get(header)
+    if (value) keptHeaders[header] = value
+  }
+
+  const fresh: CacheEntry = {
+    url,
+    status: response.status,
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+    fetchedAt: now,
+    expiresAt,
+    retryAfter: null,
+    headers: keptHeaders,
+    body: body.toString("base64"),
+  }
+
+  // Errors are passed through to the caller but never replace a cached copy
+  if (response.ok && store) await writeJSON(name, fresh)
+  return toResponse(fresh, false)
+}
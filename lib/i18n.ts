@@ -0,0 +1,117 @@
+// Shared by server and client code: UI strings and number/date formatting per feed language
+
+export interface UIStrings {
+  loadingNews: string
+  loadingMore: string
+  noNews: string
+  endOfFeed: string
+  loadFailed: string
+  tryAgain: string
+  readMore: string
+  readLess: string
+  loadingArticle: string
+  unreadOnly: string
+  save: string
+  unsave: string
+  allCategories: string
+  alsoCoveredBy: string
+  storyCount: (count: string) => string
+  showingCached: (date: string) => string
+  newStories: (count: string) => string
+}
+
+const ENGLISH: UIStrings = {
+  loadingNews: "Loading news...",
+  loadingMore: "Loading more news...",
+  noNews: "No news items found.",
+  endOfFeed: "You've reached the end of the news feed.",
+  loadFailed: "Failed to load news. Please try again.",
+  tryAgain: "Try Again",
+  readMore: "Read More",
+  readLess: "Read Less",
+  loadingArticle: "Loading full article...",
+  unreadOnly: "Unread only",
+  save: "Save",
+  unsave: "Remove from saved",
+  allCategories: "All",
+  alsoCoveredBy: "Also covered by",
+  storyCount: (count) => `${count} stories`,
+  showingCached: (date) => `You're offline. Showing cached news from ${date}.`,
+  newStories: (count) => `${count} new stories`,
+}
+
+const BANGLA: UIStrings = {
+  loadingNews: "খবর লোড হচ্ছে...",
+  loadingMore: "আরও খবর লোড হচ্ছে...",
+  noNews: "কোনো খবর পাওয়া যায়নি।",
+  endOfFeed: "আপনি সব খবর দেখে ফেলেছেন।",
+  loadFailed: "খবর লোড করা যায়নি। আবার চেষ্টা করুন।",
+  tryAgain: "আবার চেষ্টা করুন",
+  readMore: "আরও পড়ুন",
+  readLess: "কম দেখুন",
+  loadingArticle: "পুরো খবর লোড হচ্ছে...",
+  unreadOnly: "শুধু না-পড়া",
+  save: "সংরক্ষণ করুন",
+  unsave: "সংরক্ষিত থেকে সরান",
+  allCategories: "সব",
+  alsoCoveredBy: "আরও প্রকাশ করেছে",
+  storyCount: (count) => `${count}টি খবর`,
+  showingCached: (date) => `আপনি অফলাইনে আছেন। ${date} সময়ের সংরক্ষিত খবর দেখানো হচ্ছে।`,
+  newStories: (count) => `${count}টি নতুন খবর`,
+}
+
+interface Locale {
+  /** BCP 47 tag used for `lang` attributes and Intl formatting */
+  code: string
+  name: string
+  strings: UIStrings
+}
+
+// Languages without an entry here get English strings and their name as the tag
+const LOCALES: Record<string, Locale> = {
+  bangla: { code: "bn-BD", name: "বাংলা", strings: BANGLA },
+  english: { code: "en", name: "English", strings: ENGLISH },
+  hindi: { code: "hi", name: "हिन्दी", strings: ENGLISH },
+  urdu: { code: "ur", name: "اردو", strings: ENGLISH },
+  arabic: { code: "ar", name: "العربية", strings: ENGLISH },
+}
+
+export function localeFor(language: string): Locale {
+  return (
+    LOCALES[language] || {
+      code: language,
+      name: language.charAt(0).toUpperCase() + language.slice(1),
+      strings: ENGLISH,
+    }
+  )
+}
+
+/** Short language tag for feed metadata, e.g. "bn" */
+export function languageCode(language: string): string {
+  return localeFor(language).code.split("-")[0]
+}
+
+function intlLocale(language: string) {
+  const { code } = localeFor(language)
+  try {
+    return Intl.getCanonicalLocales(code)[0]
+  } catch {
+    return "en"
+  }
+}
+
+/** Formats with the language's own digits, e.g. ১২,৩৪৫ for Bangla */
+export function formatNumber(value: number, language: string): string {
+  return new Intl.NumberFormat(intlLocale(language)).format(value)
+}
+
+export function formatDateTime(date: Date, language: string): string {
+  return date.toLocaleDateString(intlLocale(language), {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: "Asia/Dhaka",
+  })
+}
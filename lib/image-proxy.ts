@@ -0,0 +1,184 @@
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import sharp from "sharp"
+import { getArticles, type StoredArticle } from "./article-store"
+import { getLanguages, listFeeds } from "./feed-registry"
+import { DATA_DIR, readJSON, withFileLock, writeJSON } from "./json-file"
+import { unproxiedImage, type ImageSize } from "./image-url"
+import { UnsafeUrlError, fetchPublic, isPublicUrl } from "./public-url"
+import type { Product } from "./types"
+
+export const IMAGE_SIZES: Record<ImageSize, { width: number; height: number }> = {
+  card: { width: 800, height: 300 },
+  thumb: { width: 320, height: 180 },
+  square: { width: 300, height: 300 },
+  icon: { width: 32, height: 32 },
+  inline: { width: 1024, height: 1024 },
+}
+
+const CACHE_DIR = path.join(DATA_DIR, "images")
+const FETCH_TIMEOUT_MS = 8000
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024
+// Thumbnail hosts of the YouTube channels in data/videos.json
+const VIDEO_IMAGE_HOSTS = ["i.ytimg.com", "yt3.ggpht.com"]
+const PRODUCT_IMAGE_HOSTS_FILE = "product-image-hosts.json"
+// Sanitized bodies write attributes double-quoted with & escaped
+const BODY_IMAGE_SRC = /<img\b[^>]*?\ssrc="([^"]*)"/g
+const FAVICON_SERVICE = "https://www.google.com/s2/favicons"
+// The favicon service redirects to its own CDN
+const FAVICON_HOSTS = new Set(["google.com", "gstatic.com"])
+
+export class ImageProxyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message)
+    this.name = "ImageProxyError"
+  }
+}
+
+function baseDomain(hostname: string) {
+  return hostname.toLowerCase().replace(/^www\./, "")
+}
+
+function matchesDomain(hostname: string, domains: Set<string>) {
+  const host = baseDomain(hostname)
+  for (const domain of domains) {
+    if (host === domain || host.endsWith(`.${domain}`)) return true
+  }
+  return false
+}
+
+const articleHostCache = new WeakMap<StoredArticle[], Set<string>>()
+
+function addHost(hosts: Set<string>, url: string | undefined) {
+  try {
+    if (url) hosts.add(new URL(url).hostname.toLowerCase())
+  } catch {}
+}
+
+// Images referenced by stored articles, as card images or in their bodies, came from registered feeds, so their CDN hosts are trusted too
+function articleImageHosts(articles: StoredArticle[]): Set<string> {
+  let hosts = articleHostCache.get(articles)
+  if (!hosts) {
+    hosts = new Set()
+    for (const article of articles) {
+      addHost(hosts, article.image)
+      for (const [, src] of article.description?.matchAll(BODY_IMAGE_SRC) ?? []) {
+        addHost(hosts, unproxiedImage(src.replace(/&amp;/g, "&")))
+      }
+    }
+    articleHostCache.set(articles, hosts)
+  }
+  return hosts
+}
+
+/** Remembers where scraped product images are hosted, since stores often serve them from a separate CDN */
+export function recordProductImageHosts(products: Product[]): Promise<void> {
+  return withFileLock(PRODUCT_IMAGE_HOSTS_FILE, async () => {
+    const hosts = new Set(await readJSON<string[]>(PRODUCT_IMAGE_HOSTS_FILE, []))
+    const known = hosts.size
+    for (const product of products) addHost(hosts, product.image)
+    if (hosts.size > known) await writeJSON(PRODUCT_IMAGE_HOSTS_FILE, [...hosts])
+  })
+}
+
+/** Domains of every registered news, video and product source */
+export async function sourceDomains(): Promise<Set<string>> {
+  const domains = new Set<string>(VIDEO_IMAGE_HOSTS)
+  for (const feed of await listFeeds()) domains.add(baseDomain(new URL(feed.url).hostname))
+
+  const productData = await import("@/data/product.json")
+  for (const source of productData.urls) domains.add(baseDomain(source.domain))
+
+  return domains
+}
+
+// Feed items name their own image hosts, so those must also resolve to public addresses
+export async function isAllowedImageUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false
+  if (!(await isPublicUrl(url))) return false
+  if (matchesDomain(url.hostname, await sourceDomains())) return true
+
+  const hostname = url.hostname.toLowerCase()
+  if ((await readJSON<string[]>(PRODUCT_IMAGE_HOSTS_FILE, [])).includes(hostname)) return true
+  for (const language of await getLanguages()) {
+    if (articleImageHosts(await getArticles(language)).has(hostname)) return true
+  }
+  return false
+}
+
+async function isFaviconUrl(url: URL): Promise<boolean> {
+  return url.protocol === "https:" && matchesDomain(url.hostname, FAVICON_HOSTS)
+}
+
+async function download(source: string, isAllowed: (url: URL) => Promise<boolean>): Promise<Buffer> {
+  let response: Response
+  try {
+    response = await fetchPublic(
+      source,
+      {
+        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)", Accept: "image/*" },
+        cache: "no-store",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      },
+      isAllowed
+    )
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) throw new ImageProxyError(error.message, 403)
+    throw error
+  }
+  if (!response.ok) throw new ImageProxyError(`Upstream returned ${response.status}`, 502)
+
+  const type = response.headers.get("content-type") || ""
+  if (!type.startsWith("image/")) throw new ImageProxyError(`Upstream sent ${type || "no content type"}`, 502)
+  if (Number(response.headers.get("content-length") || 0) > MAX_SOURCE_BYTES) {
+    throw new ImageProxyError("Image too large", 502)
+  }
+
+  const body = Buffer.from(await response.arrayBuffer())
+  if (body.length > MAX_SOURCE_BYTES) throw new ImageProxyError("Image too large", 502)
+  return body
+}
+
+async function render(source: string, size: ImageSize, isAllowed: (url: URL) => Promise<boolean>): Promise<Buffer> {
+  const { width, height } = IMAGE_SIZES[size]
+  const cacheFile = path.join(CACHE_DIR, `${createHash("sha1").update(`${size}:${source}`).digest("hex")}.webp`)
+
+  try {
+    return await fs.readFile(cacheFile)
+  } catch {}
+
+  const resized = await sharp(await download(source, isAllowed), { failOn: "none" })
+    .resize(width, height, { fit: size === "inline" ? "inside" : "cover", withoutEnlargement: size !== "icon" })
+    .webp({ quality: 78 })
+    .toBuffer()
+
+  await fs.mkdir(CACHE_DIR, { recursive: true })
+  await fs.writeFile(cacheFile, resized)
+  return resized
+}
+
+/** Fetches, resizes and caches an image from a registered source as WebP */
+export async function proxyImage(rawUrl: string, size: ImageSize): Promise<Buffer> {
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    throw new ImageProxyError("Invalid image URL", 400)
+  }
+  if (!(await isAllowedImageUrl(url))) throw new ImageProxyError(`${url.hostname} is not a registered source`, 403)
+  return render(url.toString(), size, isAllowedImageUrl)
+}
+
+export async function proxyFavicon(domain: string): Promise<Buffer> {
+  const host = baseDomain(domain)
+  if (!matchesDomain(host, await sourceDomains())) throw new ImageProxyError(`${host} is not a registered source`, 403)
+  return render(`${FAVICON_SERVICE}?domain=${encodeURIComponent(host)}&sz=64`, "icon", isFaviconUrl)
+}
+
+export async function fallbackImage(): Promise<Buffer> {
+  return fs.readFile(path.join(process.cwd(), "public", "placeholder.svg"))
+}
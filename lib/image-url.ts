@@ -0,0 +1,19 @@
+// Shared by server and client code: builds URLs for the /api/image proxy
+
+// "inline" keeps the aspect ratio of images inside article bodies; the others are cropped
+export type ImageSize = "card" | "thumb" | "square" | "icon" | "inline"
+
+export function proxiedImage(url: string | undefined, size: ImageSize): string {
+  if (!url) return `/api/image?size=${size}`
+  return `/api/image?url=${encodeURIComponent(url)}&size=${size}`
+}
+
+/** The source URL behind a proxiedImage() path; any other value comes back unchanged */
+export function unproxiedImage(src: string): string {
+  if (!src.startsWith("/api/image?")) return src
+  return new URLSearchParams(src.slice("/api/image?".length)).get("url") || src
+}
+
+export function faviconUrl(domain: string): string {
+  return `/api/image?favicon=${encodeURIComponent(domain)}&size=icon`
+}
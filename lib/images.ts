@@ -0,0 +1,178 @@
+import * as cheerio from "cheerio"
+import pLimit from "p-limit"
+import { unproxiedImage } from "./image-url"
+import { readJSON, writeJSON } from "./json-file"
+import { fetchPublic } from "./public-url"
+import type { NewsItem } from "./types"
+
+const IMAGE_CACHE_FILE = "image-cache.json"
+const MAX_CACHE_ENTRIES = 5000
+// A page without an image is checked again after this long
+const MISS_TTL_MS = 6 * 60 * 60 * 1000
+const PAGE_TIMEOUT_MS = 4000
+// How long a request waits for discovery before answering without the missing images
+const ENRICH_BUDGET_MS = 3000
+const PER_HOST_CONCURRENCY = 2
+const FLUSH_DELAY_MS = 2000
+
+interface CachedImage {
+  image: string | null
+  checkedAt: number
+}
+
+const IMAGE_META_SELECTORS = [
+  'meta[property="og:image:secure_url"]',
+  'meta[property="og:image"]',
+  'meta[name="og:image"]',
+  'meta[name="twitter:image"]',
+  'meta[name="twitter:image:src"]',
+  'meta[property="twitter:image"]',
+]
+
+const hostLimits = new Map<string, ReturnType<typeof pLimit>>()
+const pending = new Map<string, Promise<string | null>>()
+let cache: Map<string, CachedImage> | null = null
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+async function loadCache(): Promise<Map<string, CachedImage>> {
+  if (!cache) {
+    const stored = await readJSON<Record<string, CachedImage>>(IMAGE_CACHE_FILE, {})
+    cache = new Map(Object.entries(stored))
+  }
+  return cache
+}
+
+function scheduleFlush() {
+  if (flushTimer) return
+  flushTimer = setTimeout(() => {
+    flushTimer = null
+    if (!cache) return
+    // Map keeps insertion order, so the oldest lookups are the first dropped
+    for (const link of cache.keys()) {
+      if (cache.size <= MAX_CACHE_ENTRIES) break
+      cache.delete(link)
+    }
+    writeJSON(IMAGE_CACHE_FILE, Object.fromEntries(cache)).catch((error) =>
+      console.error("Error saving image cache:", error)
+    )
+  }, FLUSH_DELAY_MS)
+}
+
+function limitFor(link: string) {
+  const host = new URL(link).hostname
+  let limit = hostLimits.get(host)
+  if (!limit) {
+    limit = pLimit(PER_HOST_CONCURRENCY)
+    hostLimits.set(host, limit)
+  }
+  return limit
+}
+
+function absolute(src: string | undefined, base: string): string | null {
+  if (!src) return null
+  try {
+    const url = new URL(src.trim(), base)
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+/** First image in an item's (already sanitized) HTML body, as its source URL rather than the proxied one */
+export function firstContentImage(html: string, base: string): string | null {
+  if (!html || !html.includes("<img")) return null
+  const $ = cheerio.load(html, null, false)
+  const src = $("img[src]").first().attr("src")
+  return absolute(src && unproxiedImage(src.trim()), base)
+}
+
+/** Fills `image` from the item body when the feed carried no media or enclosure */
+export function withContentImage<T extends NewsItem>(item: T): T {
+  if (item.image) return item
+  const image = firstContentImage(item.description, item.link)
+  return image ? { ...item, image, needsImage: false } : item
+}
+
+export function extractPageImage(html: string, base: string): string | null {
+  const $ = cheerio.load(html)
+  for (const selector of IMAGE_META_SELECTORS) {
+    const image = absolute($(selector).attr("content"), base)
+    if (image) return image
+  }
+  return absolute($('link[rel="image_src"]').attr("href"), base)
+}
+
+async function fetchPageImage(link: string): Promise<string | null> {
+  try {
+    // Article links come from feeds, so every redirect is held to public hosts
+    const response = await fetchPublic(link, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)",
+      },
+      cache: "no-store",
+      signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+    })
+    if (!response.ok) return null
+    return extractPageImage(await response.text(), response.url || link)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Looks up the lead image of an article page. Results (including misses) are
+ * cached per link, and requests are limited per host so one slow publisher
+ * cannot tie up every slot.
+ */
+export async function discoverImage(link: string): Promise<string | null> {
+  const images = await loadCache()
+  const cached = images.get(link)
+  if (cached && (cached.image || Date.now() - cached.checkedAt < MISS_TTL_MS)) return cached.image
+
+  let lookup = pending.get(link)
+  if (!lookup) {
+    lookup = limitFor(link)(() => fetchPageImage(link))
+      .then((image) => {
+        images.delete(link)
+        images.set(link, { image, checkedAt: Date.now() })
+        scheduleFlush()
+        return image
+      })
+      .finally(() => pending.delete(link))
+    pending.set(link, lookup)
+  }
+  return lookup
+}
+
+/**
+ * Adds images to items that need one. Lookups still running when the budget
+ * runs out keep going in the background and fill the cache for the next
+ * request; their items are returned unchanged for now.
+ */
+export async function enrichItemsWithImages<T extends NewsItem>(items: T[], budgetMs = ENRICH_BUDGET_MS): Promise<T[]> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const deadline = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), budgetMs)
+  })
+
+  const enriched = await Promise.all(
+    items.map(async (item) => {
+      if (!item.needsImage || !item.link) return item
+
+      const lookup = discoverImage(item.link)
+        .catch(() => null)
+        .then((image) => ({ image }))
+      const result = await Promise.race([lookup, deadline])
+      if (!result) return item
+
+      return {
+        ...item,
+        image: result.image || "",
+        needsImage: false,
+      }
+    })
+  )
+
+  clearTimeout(timer)
+  return enriched
+}
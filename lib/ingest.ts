@@ -0,0 +1,114 @@
+import { evaluateAlerts } from "./alerts"
+import { itemCategories } from "./categories"
+import { getLastIngest, upsertArticles, type StoredArticle } from "./article-store"
+import { getFeedHealth, isBackedOff, recordOutcomes, type FetchOutcome } from "./feed-health"
+import { getLanguageFeeds, getLanguages, type FeedSource } from "./feed-registry"
+import { FeedFetchError, fetchFeed } from "./fetch-feed"
+import { withContentImage } from "./images"
+import { sanitizeItem } from "./sanitize"
+import type { NewsItem } from "./types"
+
+const INGEST_INTERVAL_MS = Number(process.env.INGEST_INTERVAL_MS || 10 * 60 * 1000)
+
+const inFlight = new Map<string, Promise<StoredArticle[]>>()
+let scheduler: ReturnType<typeof setInterval> | null = null
+
+async function fetchFeedItems(feed: FeedSource): Promise<{ items: NewsItem[]; outcome: FetchOutcome }> {
+  const started = Date.now()
+  try {
+    const minRefreshMs = feed.minRefreshMinutes != null ? feed.minRefreshMinutes * 60 * 1000 : undefined
+    const result = await fetchFeed(feed.url, minRefreshMs)
+    return {
+      items: result.items,
+      outcome: {
+        feedId: feed.id,
+        url: feed.url,
+        status: result.status,
+        latencyMs: Date.now() - started,
+        itemCount: result.items.length,
+        error: null,
+      },
+    }
+  } catch (error) {
+    console.error(`Error fetching RSS feed ${feed.url}:`, error)
+    return {
+      items: [],
+      outcome: {
+        feedId: feed.id,
+        url: feed.url,
+        status: error instanceof FeedFetchError ? error.status : null,
+        latencyMs: Date.now() - started,
+        itemCount: null,
+        error: (error as Error).message,
+      },
+    }
+  }
+}
+
+function prepareItem(item: NewsItem, feed: FeedSource): NewsItem {
+  const prepared = withContentImage(sanitizeItem(item))
+  return { ...prepared, categories: itemCategories(prepared, feed.category) }
+}
+
+/**
+ * Fetches every feed of a language and merges the result into the store.
+ * Concurrent calls for the same language share one run.
+ */
+export function ingestLanguage(language: string): Promise<StoredArticle[]> {
+  const running = inFlight.get(language)
+  if (running) return running
+
+  const run = (async () => {
+    const health = await getFeedHealth()
+    const feeds = (await getLanguageFeeds(language)).filter((feed) => !isBackedOff(health[feed.id]))
+
+    const results = await Promise.all(feeds.map(fetchFeedItems))
+    await recordOutcomes(results.map((result) => result.outcome))
+    const added = await upsertArticles(
+      language,
+      results.flatMap((result, index) => result.items.map((item) => prepareItem(item, feeds[index])))
+    )
+    await evaluateAlerts(added).catch((error) => console.error(`Error evaluating alerts for ${language}:`, error))
+    return added
+  })().finally(() => inFlight.delete(language))
+
+  inFlight.set(language, run)
+  return run
+}
+
+export async function ingestAll(): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {}
+  for (const language of await getLanguages()) {
+    try {
+      counts[language] = (await ingestLanguage(language)).length
+    } catch (error) {
+      console.error(`Error ingesting ${language} feeds:`, error)
+      counts[language] = 0
+    }
+  }
+  return counts
+}
+
+/**
+ * Makes sure the store has something to serve. An empty store is filled
+ * before returning; a stale one is refreshed in the background.
+ */
+export async function ensureFresh(language: string): Promise<void> {
+  const lastIngest = await getLastIngest(language)
+  if (!lastIngest) {
+    await ingestLanguage(language)
+    return
+  }
+
+  if (Date.now() - lastIngest.getTime() > INGEST_INTERVAL_MS) {
+    ingestLanguage(language).catch((error) => console.error(`Error refreshing ${language} feeds:`, error))
+  }
+}
+
+export function startIngestScheduler() {
+  if (scheduler) return
+
+  const tick = () => ingestAll().catch((error) => console.error("Error in scheduled ingest:", error))
+  tick()
+  scheduler = setInterval(tick, INGEST_INTERVAL_MS)
+}
@@ -0,0 +1,106 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Runtime state lives outside `data/`, which only holds the checked-in configuration
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+
+interface CacheEntry {
+  mtimeMs: number
+  /** Size of the file on disk, which the memory budget is counted in */
+  size: number
+  value: unknown
+}
+
+// Cached pages and sitemaps would otherwise pile up in memory; the least recently read documents go first
+const MAX_CACHED_BYTES = 64 * 1024 * 1024
+
+// Kept in least to most recently used order
+const cache = new Map<string, CacheEntry>()
+let cachedBytes = 0
+const writeQueues = new Map<string, Promise<void>>()
+const fileLocks = new Map<string, Promise<unknown>>()
+
+function resolve(name: string) {
+  return path.join(DATA_DIR, name)
+}
+
+function remember(file: string, entry: CacheEntry) {
+  const previous = cache.get(file)
+  if (previous) {
+    cache.delete(file)
+    cachedBytes -= previous.size
+  }
+  cache.set(file, entry)
+  cachedBytes += entry.size
+
+  for (const [oldest, { size }] of cache) {
+    if (cachedBytes <= MAX_CACHED_BYTES || oldest === file) break
+    cache.delete(oldest)
+    cachedBytes -= size
+  }
+}
+
+/**
+ * Reads a JSON document from the data directory, re-reading it only when the
+ * file changed on disk (the scheduler and route handlers may run in separate
+ * module instances) or was dropped from the memory cache.
+ */
+export async function readJSON<T>(name: string, fallback: T): Promise<T> {
+  const file = resolve(name)
+  try {
+    const { mtimeMs, size } = await fs.stat(file)
+    const cached = cache.get(file)
+    if (cached && cached.mtimeMs === mtimeMs) {
+      remember(file, cached)
+      return cached.value as T
+    }
+
+    const value = JSON.parse(await fs.readFile(file, "utf8")) as T
+    remember(file, { mtimeMs, size, value })
+    return value
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") console.error(`Error reading ${file}:`, error)
+    return fallback
+  }
+}
+
+/**
+ * Atomically replaces a JSON document. Writes to the same file are serialised
+ * so a slow write can never land after a newer one.
+ */
+export function writeJSON(name: string, value: unknown): Promise<void> {
+  const file = resolve(name)
+  const previous = writeQueues.get(file) || Promise.resolve()
+
+  const next = previous
+    .catch(() => {})
+    .then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      const tmp = `${file}.${process.pid}.tmp`
+      await fs.writeFile(tmp, JSON.stringify(value))
+      await fs.rename(tmp, file)
+      const { mtimeMs, size } = await fs.stat(file)
+      remember(file, { mtimeMs, size, value })
+    })
+
+  writeQueues.set(file, next)
+  return next
+}
+
+/**
+ * Runs read-modify-write cycles on one data file one after another, so
+ * concurrent updates can't overwrite each other. Every module updating a
+ * file shares its lock, since the lock is keyed by file name.
+ */
+export function withFileLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const file = resolve(name)
+  const next = (fileLocks.get(file) || Promise.resolve()).catch(() => {}).then(task)
+  fileLocks.set(file, next)
+  // Settled locks are dropped so the map doesn't keep every file ever touched
+  next
+    .catch(() => {})
+    .finally(() => {
+      if (fileLocks.get(file) === next) fileLocks.delete(file)
+    })
+  return next
+}
@@ -0,0 +1,100 @@
+import { readJSON, withFileLock, writeJSON } from "./json-file"
+import type { Product } from "./types"
+
+export interface PriceObservation {
+  observedAt: string
+  /** The product's formatted `price` at the time */
+  price: string
+  amount: number
+}
+
+export interface PriceHistory {
+  productId: string
+  url: string
+  domain: string
+  observations: PriceObservation[]
+}
+
+export interface PriceSummary {
+  current: number | null
+  lowest30Days: number | null
+  highest30Days: number | null
+  /** The current price is the lowest seen in 30 days and undercuts an earlier one */
+  isLowest30Days: boolean
+}
+
+/** What a product listing shows of its history: the recent price line and the 30-day summary */
+export interface PriceTrend {
+  /** Amounts over the last 30 days, oldest first, with repeats of the same price collapsed */
+  amounts: number[]
+  summary: PriceSummary
+}
+
+export const PRODUCT_ID_PATTERN = /^[0-9a-f]{16}$/
+
+const MAX_OBSERVATIONS = 1000
+// An unchanged price is recorded at most this often, so repeat scrapes don't flood the series
+const UNCHANGED_INTERVAL_MS = 60 * 60 * 1000
+const WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+const TREND_POINTS = 60
+
+function fileName(productId: string) {
+  return `price-history/${productId}.json`
+}
+
+export async function getPriceHistory(productId: string): Promise<PriceHistory | null> {
+  return readJSON<PriceHistory | null>(fileName(productId), null)
+}
+
+/** Appends each product's scraped price to its series; products without a readable price are skipped */
+export async function recordPrices(products: Product[], observedAt = new Date()): Promise<void> {
+  await Promise.all(
+    products.map((product) => {
+      const amount = product.amount
+      if (amount === undefined) return
+
+      return withFileLock(fileName(product.id), async () => {
+        const history = (await getPriceHistory(product.id)) ?? {
+          productId: product.id,
+          url: product.url,
+          domain: product.domain,
+          observations: [],
+        }
+        const last = history.observations[history.observations.length - 1]
+        if (last && last.amount === amount && observedAt.getTime() - Date.parse(last.observedAt) < UNCHANGED_INTERVAL_MS) {
+          return
+        }
+
+        const observations = [...history.observations, { observedAt: observedAt.toISOString(), price: product.price, amount }]
+        await writeJSON(fileName(product.id), { ...history, observations: observations.slice(-MAX_OBSERVATIONS) })
+      })
+    })
+  )
+}
+
+export function summarizeHistory(observations: PriceObservation[], now = Date.now()): PriceSummary {
+  const current = observations.length ? observations[observations.length - 1].amount : null
+  const recent = observations.filter((observation) => now - Date.parse(observation.observedAt) <= WINDOW_MS)
+  const amounts = recent.map((observation) => observation.amount)
+  const lowest30Days = amounts.length ? Math.min(...amounts) : null
+  const highest30Days = amounts.length ? Math.max(...amounts) : null
+
+  return {
+    current,
+    lowest30Days,
+    highest30Days,
+    isLowest30Days: current !== null && current === lowest30Days && highest30Days !== null && highest30Days > current,
+  }
+}
+
+export async function getPriceTrend(productId: string, now = Date.now()): Promise<PriceTrend | null> {
+  const history = await getPriceHistory(productId)
+  if (!history) return null
+
+  const amounts: number[] = []
+  for (const observation of history.observations) {
+    if (now - Date.parse(observation.observedAt) > WINDOW_MS) continue
+    if (amounts[amounts.length - 1] !== observation.amount) amounts.push(observation.amount)
+  }
+  return { amounts: amounts.slice(-TREND_POINTS), summary: summarizeHistory(history.observations, now) }
+}
@@ -0,0 +1,67 @@
+// Shared by server and client code: reading prices the way stores display them, and formatting them back
+
+export interface ParsedPrice {
+  amount: number
+  /** ISO 4217 code, when the text names a currency */
+  currency: string | null
+  /** The pre-discount price, when the text shows one above `amount` */
+  originalAmount: number | null
+}
+
+const BANGLA_DIGITS = "০১২৩৪৫৬৭৮৯"
+const CURRENCIES: [RegExp, string][] = [
+  [/৳|(?<![a-z])(?:tk|taka|bdt)(?![a-z])|টাকা/i, "BDT"],
+  [/\$|(?<![a-z])usd(?![a-z])/i, "USD"],
+  [/₹|(?<![a-z])(?:rs|inr)(?![a-z])/i, "INR"],
+]
+const CURRENCY_SYMBOLS: Record<string, string> = { BDT: "৳" }
+// Western (1,234,567) and South Asian (12,34,567) grouping alike; the commas are dropped
+const NUMBER = /\d+(?:,\d+)*(?:\.\d+)?/g
+// Letters can't border the codes, digits can ("Tk999", "999tk")
+const CURRENCY_BEFORE = /(?:৳|\$|₹|(?<![a-z])(?:tk|bdt|rs)\.?)\s*$/i
+// Only words trail an amount; a symbol after a number belongs to the next one
+const CURRENCY_AFTER = /^\s*(?:টাকা|(?:tk|taka|bdt)(?![a-z]))/i
+// Discount figures: "20%", "20% off", "Save ৳300", "৳300 ছাড়"
+const PERCENT_AFTER = /^\s*%/
+const SAVING_BEFORE = /(?:save|saving|discount|(?<!%\s*)off)\s*:?\s*(?:৳|tk\.?|bdt)?\s*$/i
+const SAVING_AFTER = /^\s*(?:৳|টাকা|tk\.?|taka|bdt)?\s*(?:off(?![a-z])|ছাড়)/i
+
+/**
+ * Reads "৳ ১,২৩,৪৫৬", "Tk 999" or "৳1,200 ৳1,500 -20%" into numbers. When
+ * two prices are shown, the lower is the current one and the higher the
+ * original. Returns null when the text holds no price.
+ */
+export function parsePrice(text: string): ParsedPrice | null {
+  const latin = text.normalize("NFC").replace(/[০-৯]/g, (digit) => String(BANGLA_DIGITS.indexOf(digit)))
+
+  const candidates: { amount: number; marked: boolean }[] = []
+  for (const match of latin.matchAll(NUMBER)) {
+    const before = latin.slice(0, match.index)
+    const after = latin.slice(match.index! + match[0].length)
+    if (PERCENT_AFTER.test(after) || SAVING_BEFORE.test(before) || SAVING_AFTER.test(after)) continue
+
+    const amount = Number.parseFloat(match[0].replace(/,/g, ""))
+    if (amount > 0) candidates.push({ amount, marked: CURRENCY_BEFORE.test(before) || CURRENCY_AFTER.test(after) })
+  }
+
+  // Next to a currency sign, numbers are prices; elsewhere they may be model numbers or quantities
+  const prices = (candidates.some((candidate) => candidate.marked) ? candidates.filter((c) => c.marked) : candidates)
+    .slice(0, 2)
+    .map((candidate) => candidate.amount)
+  if (!prices.length) return null
+
+  const amount = Math.min(...prices)
+  const highest = Math.max(...prices)
+  return {
+    amount,
+    currency: CURRENCIES.find(([pattern]) => pattern.test(latin))?.[1] ?? null,
+    originalAmount: highest > amount ? highest : null,
+  }
+}
+
+/** Taka amounts are grouped the South Asian way, e.g. ৳ 1,23,456 */
+export function formatPrice(amount: number, currency?: string | null): string {
+  const digits = amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })
+  if (!currency) return digits
+  return `${CURRENCY_SYMBOLS[currency.toUpperCase()] || currency.toUpperCase()} ${digits}`
+}
@@ -0,0 +1,172 @@
+import * as cheerio from "cheerio"
+import { createHash } from "crypto"
+import { formatPrice, parsePrice, type ParsedPrice } from "./prices"
+import { structuredProduct } from "./structured-data"
+import type { Product } from "./types"
+import { selectXPath } from "./xpath"
+
+export interface ProductSource {
+  sitemap: string
+  /** XPath of the price element; tried before the domain's own price selectors */
+  xpath?: string
+  domain: string
+  minRefreshMinutes?: number
+  /** Levels of sitemap indexes to follow from `sitemap` */
+  maxSitemapDepth?: number
+}
+
+export interface Selector {
+  /** An XPath in the subset lib/xpath.ts understands */
+  xpath?: string
+  css?: string
+  /** Read this attribute instead of the element's text */
+  attr?: string
+  /** Replaces the field's `match` for this selector; null turns matching off */
+  match?: string | null
+}
+
+export interface Replacement {
+  pattern: string
+  replacement?: string
+}
+
+export interface FieldExtractor {
+  /** Tried in order; the first that yields a value after cleanup wins */
+  selectors?: Selector[]
+  /** Regex replacements (global) applied to each candidate value */
+  replace?: Replacement[]
+  /** Candidates must match; the first capture group, or else the whole match, is kept */
+  match?: string
+}
+
+export type ProductField = "title" | "description" | "image" | "price" | "availability"
+
+export type ExtractorConfig = Partial<Record<ProductField, FieldExtractor>>
+
+/** Extractors keyed by domain; `*` holds the fallbacks every domain shares */
+export type ExtractorConfigs = Record<string, ExtractorConfig>
+
+export const PRICE_NOT_AVAILABLE = "Price not available"
+
+const FIELDS: ProductField[] = ["title", "description", "image", "price", "availability"]
+const regexes = new Map<string, RegExp>()
+
+function regex(pattern: string, flags = "") {
+  const key = `${flags}/${pattern}`
+  let compiled = regexes.get(key)
+  if (!compiled) {
+    compiled = new RegExp(pattern, flags)
+    regexes.set(key, compiled)
+  }
+  return compiled
+}
+
+/**
+ * The extractor for a source: the domain's selectors come first, then the
+ * shared `*` ones, with the source's own xpath ahead of all price selectors.
+ * A domain's `replace` and `match` override the shared ones. The shared
+ * `match` is meant for picking a price out of loosely selected text, so the
+ * source's xpath, which points at the price itself, only gets the domain's.
+ */
+export function extractorFor(source: ProductSource, configs: ExtractorConfigs): ExtractorConfig {
+  const shared = configs["*"] || {}
+  const own = configs[source.domain] || configs[source.domain.replace(/^www\./, "")] || {}
+
+  const extractor: ExtractorConfig = {}
+  for (const field of FIELDS) {
+    const selectors = [...(own[field]?.selectors || []), ...(shared[field]?.selectors || [])]
+    if (field === "price" && source.xpath) selectors.unshift({ xpath: source.xpath, match: own.price?.match ?? null })
+    extractor[field] = {
+      selectors,
+      replace: own[field]?.replace || shared[field]?.replace,
+      match: own[field]?.match || shared[field]?.match,
+    }
+  }
+  return extractor
+}
+
+function selectValue($: cheerio.CheerioAPI, selector: Selector): string | null {
+  try {
+    const element = selector.xpath
+      ? $(selectXPath($.root()[0], selector.xpath)).first()
+      : selector.css
+        ? $(selector.css).first()
+        : null
+    if (!element?.length) return null
+    return (selector.attr ? element.attr(selector.attr) : element.text())?.trim() || null
+  } catch (error) {
+    console.error(`Invalid product selector ${selector.xpath || selector.css}:`, error)
+    return null
+  }
+}
+
+function cleanValue(value: string, field: FieldExtractor, selector: Selector): string | null {
+  let cleaned = value
+  for (const { pattern, replacement = "" } of field.replace || []) {
+    cleaned = cleaned.replace(regex(pattern, "g"), replacement)
+  }
+  cleaned = cleaned.trim()
+
+  const pattern = selector.match !== undefined ? selector.match : field.match
+  if (pattern) {
+    const match = cleaned.match(regex(pattern))
+    if (!match) return null
+    cleaned = (match[1] ?? match[0]).trim()
+  }
+  return cleaned || null
+}
+
+export function extractField($: cheerio.CheerioAPI, field: FieldExtractor | undefined): string | null {
+  for (const selector of field?.selectors || []) {
+    const value = selectValue($, selector)
+    const cleaned = value && cleanValue(value, field!, selector)
+    if (cleaned) return cleaned
+  }
+  return null
+}
+
+function absoluteUrl(value: string, base: string) {
+  try {
+    return new URL(value, base).href
+  } catch {
+    return ""
+  }
+}
+
+/**
+ * Builds a product from a product page, or null when the page has no title.
+ * Structured data (JSON-LD, microdata, Open Graph product tags) wins over
+ * the extractor's selectors wherever the page declares it.
+ */
+export function extractProduct(html: string, url: string, extractor: ExtractorConfig, domain: string): Product | null {
+  const $ = cheerio.load(html)
+  const structured = structuredProduct($)
+  const title = structured.title || extractField($, extractor.title)
+  if (!title) return null
+
+  const image = structured.image || extractField($, extractor.image)
+  const displayed = structured.price === undefined ? extractField($, extractor.price) : null
+  const parsed: ParsedPrice | null =
+    structured.price !== undefined
+      ? { amount: structured.price, currency: structured.currency ?? null, originalAmount: structured.originalPrice ?? null }
+      : displayed
+        ? parsePrice(displayed)
+        : null
+
+  return {
+    id: createHash("sha1").update(url).digest("hex").slice(0, 16),
+    title: title.substring(0, 100),
+    description: (structured.description || extractField($, extractor.description) || "").substring(0, 200),
+    image: image ? absoluteUrl(image, url) : "",
+    price: parsed ? formatPrice(parsed.amount, parsed.currency) : displayed || PRICE_NOT_AVAILABLE,
+    amount: parsed?.amount,
+    originalAmount: parsed?.originalAmount && parsed.originalAmount > parsed.amount ? parsed.originalAmount : undefined,
+    currency: parsed?.currency?.toUpperCase() || undefined,
+    availability: structured.availability || extractField($, extractor.availability) || undefined,
+    brand: structured.brand,
+    sku: structured.sku,
+    rating: structured.rating,
+    url,
+    domain,
+  }
+}
@@ -0,0 +1,53 @@
+import type { PageOptions } from "./cursor"
+import { tokenize } from "./search"
+import type { Product } from "./types"
+
+export const PRODUCT_SORTS = ["title", "price_asc", "price_desc", "newest"] as const
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number]
+
+export interface ProductQuery {
+  q?: string | null
+  domain?: string | null
+  minPrice?: number | null
+  maxPrice?: number | null
+}
+
+export function isProductSort(value: unknown): value is ProductSort {
+  return PRODUCT_SORTS.includes(value as ProductSort)
+}
+
+const bareDomain = (domain: string) => domain.toLowerCase().replace(/^www\./, "")
+
+/** Products matching every given filter; price bounds leave out products without a readable price */
+export function filterProducts(products: Product[], { q, domain, minPrice, maxPrice }: ProductQuery): Product[] {
+  const terms = q ? tokenize(q) : []
+
+  return products.filter((product) => {
+    if (domain && bareDomain(product.domain) !== bareDomain(domain)) return false
+    if (minPrice != null && !(product.amount !== undefined && product.amount >= minPrice)) return false
+    if (maxPrice != null && !(product.amount !== undefined && product.amount <= maxPrice)) return false
+    if (terms.length) {
+      // Prefix matches, so results follow the query as it's typed
+      const tokens = tokenize([product.title, product.brand, product.description].filter(Boolean).join(" "))
+      if (!terms.every((term) => tokens.some((token) => token.startsWith(term)))) return false
+    }
+    return true
+  })
+}
+
+/** Paging order for a sort; the product id breaks ties so cursors stay stable */
+export function sortOptions(sort: ProductSort): Pick<PageOptions<Product>, "key" | "id" | "order"> {
+  const id = (product: Product) => product.id
+  switch (sort) {
+    case "price_asc":
+      // Products without a price go last either way
+      return { key: (product) => product.amount ?? Number.MAX_SAFE_INTEGER, id, order: "asc" }
+    case "price_desc":
+      return { key: (product) => product.amount ?? -1, id, order: "desc" }
+    case "newest":
+      return { key: (product) => (product.updatedAt ? Date.parse(product.updatedAt) : 0), id, order: "desc" }
+    case "title":
+      return { key: (product) => product.title, id, order: "asc" }
+  }
+}
@@ -0,0 +1,86 @@
+import { lookup } from "dns/promises"
+import { BlockList, isIP } from "net"
+
+const MAX_REDIRECTS = 5
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254), carrier-grade NAT and multicast ranges
+const PRIVATE_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6")
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) against the IPv4 ranges
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4")
+}
+
+/**
+ * Whether a URL's host resolves only to public addresses, so the server can
+ * fetch it on a client's behalf. Hosts that don't resolve count as not public.
+ */
+export async function isPublicUrl(url: string | URL): Promise<boolean> {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase()
+  } catch {
+    return false
+  }
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) return false
+
+  try {
+    const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(({ address }) => address)
+    return addresses.length > 0 && !addresses.some(isPrivateAddress)
+  } catch {
+    return false
+  }
+}
+
+export class UnsafeUrlError extends Error {
+  constructor(public readonly url: string) {
+    super(`${url} does not resolve to an allowed public address`)
+    this.name = "UnsafeUrlError"
+  }
+}
+
+/**
+ * fetch() for URLs that come from feeds, stores or users. Redirects are
+ * followed by hand so every hop has to resolve to a public address and pass
+ * `isAllowed`; otherwise an UnsafeUrlError is thrown.
+ */
+export async function fetchPublic(
+  url: string,
+  init: RequestInit = {},
+  isAllowed?: (url: URL) => Promise<boolean>
+): Promise<Response> {
+  let current = new URL(url)
+  for (let redirects = 0; ; redirects++) {
+    if (!(await isPublicUrl(current)) || (isAllowed && !(await isAllowed(current)))) {
+      throw new UnsafeUrlError(current.toString())
+    }
+    const response = await fetch(current, { ...init, redirect: "manual" })
+    const location = response.headers.get("location")
+    if (response.status < 300 || response.status >= 400 || !location) return response
+    if (redirects === MAX_REDIRECTS) throw new Error(`Too many redirects from ${url}`)
+    await response.body?.cancel()
+    current = new URL(location, current)
+  }
+}
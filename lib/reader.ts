@@ -0,0 +1,293 @@
+import * as cheerio from "cheerio"
+import type { AnyNode, Element } from "domhandler"
+import { createHash } from "crypto"
+import { getArticles, type StoredArticle } from "./article-store"
+import { parseDate } from "./dates"
+import { getLanguages } from "./feed-registry"
+import { extractPageImage } from "./images"
+import { readJSON, writeJSON } from "./json-file"
+import { UnsafeUrlError, fetchPublic } from "./public-url"
+import { htmlToText, sanitizeHTML, summarize } from "./sanitize"
+import { type JsonLdNode, hasType, isJsonLdNode, jsonLdNodes } from "./structured-data"
+
+export interface ReaderArticle {
+  url: string
+  title: string
+  byline: string | null
+  siteName: string | null
+  image: string | null
+  /** ISO timestamp, when the page states one */
+  published: string | null
+  /** Sanitized HTML of the article body */
+  content: string
+  excerpt: string
+  length: number
+}
+
+interface CachedArticle {
+  fetchedAt: number
+  article: ReaderArticle
+}
+
+export class ReaderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message)
+    this.name = "ReaderError"
+  }
+}
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const PAGE_TIMEOUT_MS = 8000
+const MAX_PAGE_BYTES = 5 * 1024 * 1024
+// Bodies shorter than this are teasers or paywalls, not something worth a reader view
+const MIN_CONTENT_LENGTH = 250
+
+const REMOVED = "script, style, noscript, iframe, form, nav, header, footer, aside, button, svg, template, [hidden]"
+const UNLIKELY = /comment|share|social|related|sidebar|footer|header|menu|nav|breadcrumb|advert|\bads?\b|promo|subscribe|newsletter|popup|modal|tags?\b|print|more-news|read-also|also-read/i
+const LIKELY = /article|body|content|entry|main|post|story|text|details|news-?body|description/i
+const BODY_SELECTORS = ['[itemprop="articleBody"]', "article .article-body", "article .entry-content", ".post-content", ".story-body"]
+const DATE_SELECTORS = [
+  'meta[property="article:published_time"]',
+  'meta[name="article:published_time"]',
+  'meta[itemprop="datePublished"]',
+  'meta[name="pubdate"]',
+  'meta[name="publish-date"]',
+  'meta[name="date"]',
+]
+
+const pending = new Map<string, Promise<ReaderArticle>>()
+const linkCache = new WeakMap<StoredArticle[], Set<string>>()
+
+function cacheName(url: string) {
+  return `reader-cache/${createHash("sha1").update(url).digest("hex")}.json`
+}
+
+function articleLinks(articles: StoredArticle[]): Set<string> {
+  let links = linkCache.get(articles)
+  if (!links) {
+    links = new Set(articles.map((article) => article.link))
+    linkCache.set(articles, links)
+  }
+  return links
+}
+
+// Only pages linked from ingested articles are fetched, so the endpoint cannot be used as an open proxy
+async function isKnownArticle(url: string): Promise<boolean> {
+  for (const language of await getLanguages()) {
+    if (articleLinks(await getArticles(language)).has(url)) return true
+  }
+  return false
+}
+
+function jsonLdArticle($: cheerio.CheerioAPI): JsonLdNode | undefined {
+  return jsonLdNodes($).find((node) => hasType(node, /Article|BlogPosting|Report/))
+}
+
+function authorName(author: unknown): string | null {
+  if (!author) return null
+  if (typeof author === "string") return author
+  if (Array.isArray(author)) return author.map(authorName).filter(Boolean).join(", ") || null
+  return isJsonLdNode(author) && typeof author.name === "string" ? author.name : null
+}
+
+function findByline($: cheerio.CheerioAPI, ld: JsonLdNode | undefined): string | null {
+  const candidates = [
+    authorName(ld?.author),
+    $('meta[name="author"]').attr("content"),
+    $('meta[property="article:author"]').attr("content"),
+    $('[itemprop="author"] [itemprop="name"]').first().text(),
+    $('[rel="author"]').first().text(),
+    $(".byline, .author-name, .author").first().text(),
+  ]
+  for (const candidate of candidates) {
+    const byline = candidate?.replace(/\s+/g, " ").trim()
+    if (byline && byline.length < 120 && !/^https?:/.test(byline)) return byline
+  }
+  return null
+}
+
+function findPublished($: cheerio.CheerioAPI, ld: JsonLdNode | undefined): string | null {
+  const candidates = [
+    ld?.datePublished,
+    ...DATE_SELECTORS.map((selector) => $(selector).attr("content")),
+    $("time[datetime]").first().attr("datetime"),
+  ]
+  for (const candidate of candidates) {
+    const date = typeof candidate === "string" ? parseDate(candidate) : null
+    if (date) return date.toISOString()
+  }
+  return null
+}
+
+function textLength(node: cheerio.Cheerio<AnyNode>) {
+  return node.text().replace(/\s+/g, " ").trim().length
+}
+
+function linkDensity($: cheerio.CheerioAPI, node: cheerio.Cheerio<AnyNode>) {
+  const length = textLength(node)
+  if (!length) return 1
+  let linked = 0
+  node.find("a").each((_, link) => {
+    linked += textLength($(link))
+  })
+  return linked / length
+}
+
+function classWeight(element: Element) {
+  const names = `${element.attribs.class || ""} ${element.attribs.id || ""}`
+  let weight = 0
+  if (LIKELY.test(names)) weight += 25
+  if (UNLIKELY.test(names)) weight -= 25
+  return weight
+}
+
+/**
+ * Readability-style body detection: every paragraph scores its parent (and
+ * half that for the grandparent) by length and punctuation, and the best
+ * container after a link-density penalty wins.
+ */
+function findBody($: cheerio.CheerioAPI): cheerio.Cheerio<AnyNode> | null {
+  for (const selector of BODY_SELECTORS) {
+    const node = $(selector).first()
+    if (node.length && textLength(node) >= MIN_CONTENT_LENGTH) return node
+  }
+
+  const scores = new Map<Element, number>()
+  $("p, pre, td").each((_, paragraph) => {
+    const text = $(paragraph).text().trim()
+    if (text.length < 25) return
+
+    // Bangla text ends sentences with the dari (।) rather than a full stop
+    const score = 1 + (text.match(/[,،।]/g)?.length || 0) + Math.min(3, Math.floor(text.length / 100))
+    const parent = paragraph.parent as Element | null
+    const grandparent = parent?.parent as Element | null
+    if (parent?.type === "tag") scores.set(parent, (scores.get(parent) ?? classWeight(parent)) + score)
+    if (grandparent?.type === "tag") scores.set(grandparent, (scores.get(grandparent) ?? classWeight(grandparent)) + score / 2)
+  })
+
+  let best: Element | null = null
+  let bestScore = 0
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(element)))
+    if (adjusted > bestScore) {
+      best = element
+      bestScore = adjusted
+    }
+  }
+  return best ? $(best) : null
+}
+
+function removeClutter($: cheerio.CheerioAPI) {
+  $(REMOVED).remove()
+  $("*").each((_, element) => {
+    if (element.type !== "tag" || element.tagName === "body" || element.tagName === "html") return
+    const names = `${element.attribs.class || ""} ${element.attribs.id || ""}`
+    if (UNLIKELY.test(names) && !LIKELY.test(names)) $(element).remove()
+  })
+}
+
+/** Extracts the main article of a page, or throws a ReaderError when there is none */
+export function extractArticle(html: string, url: string): ReaderArticle {
+  const $ = cheerio.load(html)
+  const ld = jsonLdArticle($)
+
+  const title =
+    $('meta[property="og:title"]').attr("content")?.trim() ||
+    (typeof ld?.headline === "string" ? ld.headline : "") ||
+    $("h1").first().text().trim() ||
+    $("title").text().trim()
+  const byline = findByline($, ld)
+  const published = findPublished($, ld)
+  const image = extractPageImage(html, url)
+  const siteName = $('meta[property="og:site_name"]').attr("content")?.trim() || null
+
+  removeClutter($)
+  const body = findBody($)
+  let content = body ? sanitizeHTML(body.html() || "", url) : ""
+
+  // Some sites render the body client-side but still ship it in JSON-LD
+  if (htmlToText(content).length < MIN_CONTENT_LENGTH && typeof ld?.articleBody === "string") {
+    const paragraphs = cheerio.load("", null, false)
+    for (const paragraph of ld.articleBody.split(/\n+/)) {
+      if (paragraph.trim()) paragraphs.root().append(paragraphs("<p>").text(paragraph.trim()))
+    }
+    content = paragraphs.html()
+  }
+
+  const text = htmlToText(content)
+  if (text.length < MIN_CONTENT_LENGTH) throw new ReaderError("No article content found", 422)
+
+  return {
+    url,
+    title: htmlToText(title),
+    byline,
+    siteName,
+    image,
+    published,
+    content,
+    excerpt: summarize(text),
+    length: text.length,
+  }
+}
+
+async function fetchArticle(url: string): Promise<ReaderArticle> {
+  let response: Response
+  try {
+    // Links come from feeds, which may point anywhere, so private hosts are refused at every redirect
+    response = await fetchPublic(url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64)",
+        Accept: "text/html,application/xhtml+xml",
+      },
+      cache: "no-store",
+      signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+    })
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) throw new ReaderError("Article link does not point to a public address", 403)
+    throw new ReaderError(`Could not fetch article: ${(error as Error).message}`, 502)
+  }
+
+  if (!response.ok) throw new ReaderError(`Upstream returned ${response.status}`, 502)
+  const type = response.headers.get("content-type") || ""
+  if (type && !type.includes("html")) throw new ReaderError(`Upstream sent ${type}`, 422)
+
+  const body = Buffer.from(await response.arrayBuffer())
+  if (body.length > MAX_PAGE_BYTES) throw new ReaderError("Page too large", 422)
+  return extractArticle(body.toString("utf8"), response.url || url)
+}
+
+/**
+ * Returns the reader view of an ingested article's page. Extractions are
+ * cached on disk for a day; concurrent requests for one link share a fetch.
+ */
+export async function readArticle(rawUrl: string): Promise<ReaderArticle> {
+  let url: string
+  try {
+    const parsed = new URL(rawUrl)
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new Error()
+    url = parsed.toString()
+  } catch {
+    throw new ReaderError("Invalid article URL", 400)
+  }
+  if (!(await isKnownArticle(rawUrl)) && !(await isKnownArticle(url))) {
+    throw new ReaderError("Not a link from a registered feed", 403)
+  }
+
+  const cached = await readJSON<CachedArticle | null>(cacheName(url), null)
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.article
+
+  let extraction = pending.get(url)
+  if (!extraction) {
+    extraction = fetchArticle(rawUrl)
+      .then(async (article) => {
+        await writeJSON(cacheName(url), { fetchedAt: Date.now(), article })
+        return article
+      })
+      .finally(() => pending.delete(url))
+    pending.set(url, extraction)
+  }
+  return extraction
+}
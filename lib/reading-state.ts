@@ -0,0 +1,90 @@
+// Shared by server and client code: bookmarks and read marks, and how two copies are merged
+
+export type SavedKind = "news" | "video"
+
+export interface SavedItem {
+  kind: SavedKind
+  /** guid (or link) for news, videoId for videos */
+  key: string
+  title: string
+  link: string
+  image: string | null
+  /** Outlet domain or channel name */
+  source: string
+  published: string
+  savedAt: number
+}
+
+export interface ReadingState {
+  /** Item key -> when it was read */
+  read: Record<string, number>
+  saved: Record<string, SavedItem>
+  /** Item key -> when it was unsaved, so a removal wins over an older copy on another device */
+  removed: Record<string, number>
+}
+
+export const MAX_READ_ENTRIES = 5000
+export const MAX_SAVED_ENTRIES = 1000
+
+export function emptyState(): ReadingState {
+  return { read: {}, saved: {}, removed: {} }
+}
+
+function newest<T>(entries: [string, T][], time: (value: T) => number, limit: number): Record<string, T> {
+  return Object.fromEntries(entries.sort((a, b) => time(b[1]) - time(a[1])).slice(0, limit))
+}
+
+function isSavedItem(value: unknown): value is SavedItem {
+  const item = value as Partial<SavedItem> | null
+  return (
+    !!item &&
+    typeof item === "object" &&
+    (item.kind === "news" || item.kind === "video") &&
+    typeof item.key === "string" &&
+    typeof item.title === "string" &&
+    typeof item.link === "string" &&
+    typeof item.savedAt === "number"
+  )
+}
+
+/** Drops anything malformed from state that came from storage or a request body */
+export function normalizeState(value: unknown): ReadingState {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, any>
+  const timestamps = (record: unknown) =>
+    Object.entries(record && typeof record === "object" ? record : {}).filter(
+      (entry): entry is [string, number] => typeof entry[1] === "number"
+    )
+
+  return {
+    read: newest(timestamps(input.read), (time) => time, MAX_READ_ENTRIES),
+    saved: newest(
+      Object.entries(input.saved && typeof input.saved === "object" ? input.saved : {}).filter(
+        (entry): entry is [string, SavedItem] => isSavedItem(entry[1]) && entry[1].key === entry[0]
+      ),
+      (item) => item.savedAt,
+      MAX_SAVED_ENTRIES
+    ),
+    removed: newest(timestamps(input.removed), (time) => time, MAX_SAVED_ENTRIES),
+  }
+}
+
+/**
+ * Combines two copies of the state: read marks are unioned, and for each
+ * bookmark the latest of "saved" and "removed" wins.
+ */
+export function mergeStates(a: ReadingState, b: ReadingState): ReadingState {
+  const read = { ...a.read }
+  for (const [key, time] of Object.entries(b.read)) read[key] = Math.max(read[key] || 0, time)
+
+  const saved: Record<string, SavedItem> = {}
+  const removed: Record<string, number> = {}
+  const keys = new Set([...Object.keys(a.saved), ...Object.keys(b.saved), ...Object.keys(a.removed), ...Object.keys(b.removed)])
+  for (const key of keys) {
+    const copies = [a.saved[key], b.saved[key]].filter(Boolean).sort((x, y) => y.savedAt - x.savedAt)
+    const removedAt = Math.max(a.removed[key] || 0, b.removed[key] || 0)
+    if (copies[0] && copies[0].savedAt > removedAt) saved[key] = copies[0]
+    else if (removedAt) removed[key] = removedAt
+  }
+
+  return normalizeState({ read, saved, removed })
+}
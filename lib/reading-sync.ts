@@ -0,0 +1,22 @@
+import { readJSON, withFileLock, writeJSON } from "./json-file"
+import { emptyState, mergeStates, normalizeState, type ReadingState } from "./reading-state"
+
+// Sync codes are generated in the browser and double as file names, so keep them to plain slugs
+export const SYNC_CODE_PATTERN = /^[a-z0-9]{16,64}$/
+
+function fileName(code: string) {
+  return `reading-sync/${code}.json`
+}
+
+export async function getSyncedState(code: string): Promise<ReadingState> {
+  return normalizeState(await readJSON<ReadingState>(fileName(code), emptyState()))
+}
+
+/** Merges a browser's copy into the stored one and returns the combined state */
+export function mergeSyncedState(code: string, incoming: unknown): Promise<ReadingState> {
+  return withFileLock(fileName(code), async () => {
+    const merged = mergeStates(await getSyncedState(code), normalizeState(incoming))
+    await writeJSON(fileName(code), merged)
+    return merged
+  })
+}
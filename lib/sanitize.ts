@@ -0,0 +1,133 @@
+import * as cheerio from "cheerio"
+import { proxiedImage } from "./image-url"
+import type { NewsItem } from "./types"
+
+const SUMMARY_LENGTH = 300
+
+// Elements kept as-is (minus disallowed attributes); anything else is unwrapped to its text
+const ALLOWED_TAGS = new Set([
+  "p", "br", "a", "img", "ul", "ol", "li", "strong", "b", "em", "i", "u", "blockquote",
+  "h2", "h3", "h4", "figure", "figcaption", "table", "thead", "tbody", "tr", "th", "td",
+])
+// Elements removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  "script", "style", "iframe", "object", "embed", "noscript", "form", "input", "button",
+  "textarea", "select", "svg", "math", "template", "link", "meta", "base", "frame", "frameset",
+])
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href", "title"],
+  img: ["src", "alt", "title", "width", "height"],
+  td: ["colspan", "rowspan"],
+  th: ["colspan", "rowspan"],
+}
+const BLOCK_TAGS = new Set(["p", "br", "li", "blockquote", "h2", "h3", "h4", "figure", "figcaption", "tr", "div"])
+
+function safeUrl(value: string | undefined, base: string, protocols: string[]): string | null {
+  if (!value) return null
+  try {
+    const url = new URL(value.trim(), base || undefined)
+    return protocols.includes(url.protocol) ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reduces feed HTML to an allowlist of text-formatting elements. Links are
+ * resolved against `baseUrl` and forced to open in a new tab without an
+ * opener; images are routed through /api/image. Scripts, frames, event
+ * handlers and non-http(s) URLs are removed.
+ */
+export function sanitizeHTML(html: string, baseUrl = ""): string {
+  if (!html) return ""
+  const $ = cheerio.load(html, null, false)
+
+  // Children first, so unwrapping a parent never revisits removed nodes
+  for (const element of $.root().find("*").toArray().reverse()) {
+    const node = $(element)
+    const tag = element.tagName.toLowerCase()
+
+    if (DROPPED_TAGS.has(tag)) {
+      node.remove()
+      continue
+    }
+    if (!ALLOWED_TAGS.has(tag)) {
+      node.replaceWith(node.contents())
+      continue
+    }
+
+    const allowed = ALLOWED_ATTRIBUTES[tag] || []
+    for (const name of Object.keys(element.attribs)) {
+      if (!allowed.includes(name.toLowerCase())) node.removeAttr(name)
+    }
+
+    if (tag === "a") {
+      const href = safeUrl(node.attr("href"), baseUrl, ["http:", "https:", "mailto:"])
+      if (!href) {
+        node.replaceWith(node.contents())
+        continue
+      }
+      node.attr("href", href)
+      node.attr("target", "_blank")
+      node.attr("rel", "noopener noreferrer nofollow ugc")
+    }
+
+    // Images load through the proxy so readers' browsers never contact the source's hosts
+    if (tag === "img") {
+      const original = node.attr("src")?.trim()
+      if (original?.startsWith("/api/image?")) {
+        node.attr("loading", "lazy")
+        continue
+      }
+      const src = safeUrl(original, baseUrl, ["http:", "https:"])
+      if (!src) {
+        node.remove()
+        continue
+      }
+      node.attr("src", proxiedImage(src, "inline"))
+      node.attr("loading", "lazy")
+    }
+  }
+
+  return $.html().trim()
+}
+
+/** Plain text of an HTML fragment, with block boundaries kept as line breaks */
+export function htmlToText(html: string): string {
+  if (!html) return ""
+  const $ = cheerio.load(html, null, false)
+  $.root()
+    .find("*")
+    .each((_, element) => {
+      if (BLOCK_TAGS.has(element.tagName.toLowerCase())) $(element).after("\n")
+    })
+
+  return $.root()
+    .text()
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim()
+}
+
+export function summarize(text: string, length = SUMMARY_LENGTH): string {
+  if (text.length <= length) return text
+  const cut = text.slice(0, length)
+  const boundary = cut.lastIndexOf(" ")
+  return `${(boundary > length * 0.6 ? cut.slice(0, boundary) : cut).trim()}…`
+}
+
+/** Replaces the item's feed HTML with a sanitized body and adds a plain-text summary */
+export function sanitizeItem<T extends NewsItem>(item: T): T {
+  const description = sanitizeHTML(item.description, item.link)
+  return {
+    ...item,
+    title: htmlToText(item.title),
+    description,
+    summary: summarize(htmlToText(description)),
+  }
+}
+
+/** Items stored before sanitization was introduced lack a summary */
+export function ensureSanitized<T extends NewsItem>(item: T): T {
+  return item.summary === undefined ? sanitizeItem(item) : item
+}
@@ -0,0 +1,262 @@
+import { articleTime, type StoredArticle } from "./article-store"
+
+const BANGLA_DIGITS = "০১২৩৪৫৬৭৮৯"
+const BANGLA_SCRIPT = /[ঀ-৿]/
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+/gu
+
+// BM25 parameters; titles count more than body text
+const K1 = 1.2
+const B = 0.75
+const TITLE_WEIGHT = 3
+const SNIPPET_LENGTH = 220
+
+const ENGLISH_STOPWORDS = new Set(
+  "a an and are as at be by for from has in is it its of on or that the to was were will with".split(" ")
+)
+
+// Case endings, plural and classifier suffixes, longest first. Bare র and ও
+// are left out because so many roots end in them (সরকার)
+const BANGLA_SUFFIXES = [
+  "গুলোকে", "গুলোর", "গুলো", "গুলি", "দেরকে", "দের", "েরা", "কে", "তে", "েতে", "য়ে", "য়ের", "য়", "ের", "ে", "টির", "টি", "টা", "রা",
+]
+  .map((suffix) => suffix.normalize("NFC"))
+  .sort((a, b) => b.length - a.length)
+const YA = "য়".normalize("NFC")
+const VOWEL_SIGN = /[\u09BE-\u09CC]$/
+// The locative ে also ends short roots (ছেলে), so it only comes off longer words (বাংলাদেশে)
+const MIN_LOCATIVE_STEM = 4
+
+/**
+ * Normalises text for indexing: composes Unicode (so য়/ড়/ঢ় typed either
+ * way compare equal), drops zero-width joiners used in conjunct shaping and
+ * maps Bangla digits to ASCII.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/[\u200C\u200D]/g, "")
+    .replace(/[০-৯]/g, (digit) => String(BANGLA_DIGITS.indexOf(digit)))
+    .toLowerCase()
+}
+
+function stemBangla(token: string): string {
+  for (const suffix of BANGLA_SUFFIXES) {
+    if (!token.endsWith(suffix)) continue
+    const stem = token.slice(0, -suffix.length)
+    const stemLength = Array.from(stem).length
+    // Keep at least two characters of stem so short words are not stripped bare
+    if (stemLength < 2) continue
+    if (suffix === "ে" && stemLength < MIN_LOCATIVE_STEM) continue
+    // After a consonant য় belongs to the root (বিষয়); endings starting with it follow a vowel (ঢাকায়)
+    if (suffix.startsWith(YA) && !VOWEL_SIGN.test(stem)) continue
+    return stem
+  }
+  return token
+}
+
+function hasVowel(stem: string) {
+  return /[aeiouy]/.test(stem)
+}
+
+// A light Porter-style stemmer covering the inflections that matter for headlines
+function stemEnglish(token: string): string {
+  let word = token
+  if (word.length <= 3) return word
+
+  if (word.endsWith("sses")) word = word.slice(0, -2)
+  else if (word.endsWith("ies")) word = word.slice(0, -2)
+  else if (word.endsWith("s") && !word.endsWith("ss") && !word.endsWith("us")) word = word.slice(0, -1)
+
+  for (const suffix of ["ingly", "edly", "ing", "ed"]) {
+    const stem = word.slice(0, -suffix.length)
+    if (word.endsWith(suffix) && hasVowel(stem) && stem.length >= 3) {
+      word = /(.)\1$/.test(stem) && !/[lsz]$/.test(stem) ? stem.slice(0, -1) : stem
+      break
+    }
+  }
+
+  for (const [suffix, replacement] of [
+    ["ational", "ate"],
+    ["ization", "ize"],
+    ["fulness", "ful"],
+    ["iveness", "ive"],
+    ["ments", ""],
+    ["ment", ""],
+    ["ness", ""],
+    ["ly", ""],
+  ]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) {
+      word = word.slice(0, -suffix.length) + replacement
+      break
+    }
+  }
+
+  return word.endsWith("i") && word.length > 3 ? word.slice(0, -1) + "y" : word
+}
+
+export function stem(token: string): string {
+  return BANGLA_SCRIPT.test(token) ? stemBangla(token) : stemEnglish(token)
+}
+
+/**
+ * Splits on Unicode letter/mark/number runs rather than whitespace, so a
+ * conjunct (consonant + hasant + consonant) stays inside one token while the
+ * danda and other punctuation separate tokens.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const match of normalizeText(text).matchAll(TOKEN_PATTERN)) {
+    const token = match[0]
+    if (ENGLISH_STOPWORDS.has(token)) continue
+    tokens.push(stem(token))
+  }
+  return tokens
+}
+
+export function plainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function escapeHTML(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+/** Wraps every word whose stem is in `terms` in <mark>; everything else is escaped */
+export function highlight(text: string, terms: Set<string>): string {
+  let html = ""
+  let last = 0
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0
+    html += escapeHTML(text.slice(last, index))
+    const word = match[0]
+    html += terms.has(stem(normalizeText(word))) ? `<mark>${escapeHTML(word)}</mark>` : escapeHTML(word)
+    last = index + word.length
+  }
+  return html + escapeHTML(text.slice(last))
+}
+
+function snippet(text: string, terms: Set<string>): string {
+  let start = 0
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    if (terms.has(stem(normalizeText(match[0])))) {
+      start = Math.max(0, (match.index ?? 0) - 60)
+      break
+    }
+  }
+  const window = text.slice(start, start + SNIPPET_LENGTH)
+  return `${start > 0 ? "…" : ""}${highlight(window, terms)}${start + SNIPPET_LENGTH < text.length ? "…" : ""}`
+}
+
+interface IndexedDocument {
+  article: StoredArticle
+  text: string
+  length: number
+  frequencies: Map<string, number>
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[]
+  postings: Map<string, number[]>
+  averageLength: number
+}
+
+export function buildIndex(articles: StoredArticle[]): SearchIndex {
+  const documents: IndexedDocument[] = []
+  const postings = new Map<string, number[]>()
+  let totalLength = 0
+
+  for (const article of articles) {
+    const text = plainText(article.description)
+    const frequencies = new Map<string, number>()
+    const add = (token: string, weight: number) => frequencies.set(token, (frequencies.get(token) || 0) + weight)
+
+    const title = tokenize(article.title)
+    const body = tokenize(text)
+    title.forEach((token) => add(token, TITLE_WEIGHT))
+    body.forEach((token) => add(token, 1))
+
+    const index = documents.length
+    for (const token of frequencies.keys()) {
+      const list = postings.get(token) || []
+      list.push(index)
+      postings.set(token, list)
+    }
+
+    const length = body.length + TITLE_WEIGHT * title.length
+    totalLength += length
+    documents.push({ article, text, length, frequencies })
+  }
+
+  return { documents, postings, averageLength: documents.length ? totalLength / documents.length : 0 }
+}
+
+export interface SearchOptions {
+  from?: Date | null
+  to?: Date | null
+}
+
+export interface SearchHit {
+  item: StoredArticle
+  score: number
+  highlights: {
+    title: string
+    snippet: string
+  }
+}
+
+/**
+ * Ranks documents with BM25. Every query term contributes independently, but
+ * documents matching more of the query are boosted so that full matches win.
+ */
+export function search(index: SearchIndex, query: string, options: SearchOptions = {}): SearchHit[] {
+  const terms = [...new Set(tokenize(query))]
+  if (terms.length === 0) return []
+
+  const scores = new Map<number, { score: number; matched: number }>()
+  const total = index.documents.length
+
+  for (const term of terms) {
+    const list = index.postings.get(term)
+    if (!list) continue
+    const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5))
+
+    for (const docIndex of list) {
+      const doc = index.documents[docIndex]
+      const frequency = doc.frequencies.get(term) || 0
+      const norm = frequency + K1 * (1 - B + (B * doc.length) / (index.averageLength || 1))
+      const entry = scores.get(docIndex) || { score: 0, matched: 0 }
+      entry.score += (idf * frequency * (K1 + 1)) / norm
+      entry.matched += 1
+      scores.set(docIndex, entry)
+    }
+  }
+
+  const termSet = new Set(terms)
+  const hits: SearchHit[] = []
+
+  for (const [docIndex, { score, matched }] of scores) {
+    const { article, text } = index.documents[docIndex]
+    const published = articleTime(article)
+    if (options.from && !(published >= options.from.getTime())) continue
+    if (options.to && !(published <= options.to.getTime())) continue
+
+    hits.push({
+      item: article,
+      score: score * (matched / terms.length),
+      highlights: {
+        title: highlight(article.title, termSet),
+        snippet: snippet(text, termSet),
+      },
+    })
+  }
+
+  return hits.sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,192 @@
+import { createHash } from "crypto"
+import { Parser } from "htmlparser2"
+import { Readable } from "stream"
+import { StringDecoder } from "string_decoder"
+import type { ReadableStream as WebReadableStream } from "stream/web"
+import { createGunzip } from "zlib"
+import { readJSON, writeJSON } from "./json-file"
+import { fetchPublic } from "./public-url"
+
+export interface SitemapEntry {
+  loc: string
+  /** `<lastmod>` as epoch milliseconds, when present and parseable */
+  lastmod: number | null
+}
+
+export interface SitemapOptions {
+  headers?: Record<string, string>
+  /** Never refetch a sitemap more often than this */
+  minRefreshMs?: number
+  /** How many levels of sitemap indexes to follow */
+  maxDepth?: number
+  maxUrls?: number
+}
+
+interface SitemapFile {
+  url: string
+  kind: "urlset" | "sitemapindex"
+  etag: string | null
+  lastModified: string | null
+  fetchedAt: number
+  entries: SitemapEntry[]
+}
+
+const DEFAULT_MAX_DEPTH = 2
+const DEFAULT_MAX_URLS = 50
+// Entries kept per file; the rest of a large sitemap is dropped while it streams
+const MAX_ENTRIES_PER_FILE = 1000
+const MAX_CHILD_SITEMAPS = 10
+// The sitemap protocol caps files at 50MB uncompressed
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+const REQUEST_TIMEOUT_MS = 60000
+
+function cacheName(url: string) {
+  return `sitemap-cache/${createHash("sha1").update(url).digest("hex")}.json`
+}
+
+/** Most recently modified first; entries without a lastmod keep their order at the end */
+function newestFirst(entries: SitemapEntry[]): SitemapEntry[] {
+  return entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => (b.entry.lastmod ?? -Infinity) - (a.entry.lastmod ?? -Infinity) || a.index - b.index)
+    .map(({ entry }) => entry)
+}
+
+// Sitemaps are gzipped either as `.xml.gz` files or with Content-Encoding (which fetch undoes), so sniff the bytes
+async function* decodedChunks(body: WebReadableStream<Uint8Array>): AsyncGenerator<Buffer> {
+  const source = Readable.fromWeb(body)
+  const iterator = source[Symbol.asyncIterator]()
+  const first = await iterator.next()
+  if (first.done) return
+
+  async function* raw() {
+    yield Buffer.from(first.value)
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) yield Buffer.from(next.value)
+  }
+
+  const head = Buffer.from(first.value)
+  if (head[0] === 0x1f && head[1] === 0x8b) {
+    const gunzip = createGunzip()
+    source.on("error", (error) => gunzip.destroy(error))
+    yield* Readable.from(raw()).pipe(gunzip)
+  } else {
+    yield* raw()
+  }
+}
+
+/** Streams a `<urlset>` or `<sitemapindex>` document, keeping the newest entries */
+async function parseSitemap(body: WebReadableStream<Uint8Array>, url: string): Promise<Pick<SitemapFile, "kind" | "entries">> {
+  let kind: SitemapFile["kind"] | null = null
+  let entries: SitemapEntry[] = []
+  let field: "loc" | "lastmod" | null = null
+  let current: { loc: string; lastmod: string; depth: number } | null = null
+  let depth = 0
+  // Tags may carry a namespace prefix; extensions like <image:loc> nest deeper and are skipped
+  const localName = (name: string) => name.slice(name.indexOf(":") + 1).toLowerCase()
+
+  const parser = new Parser(
+    {
+      onopentagname(name) {
+        const tag = localName(name)
+        depth++
+        if (!kind && (tag === "urlset" || tag === "sitemapindex")) kind = tag
+        else if (!current && (tag === "url" || tag === "sitemap")) current = { loc: "", lastmod: "", depth }
+        else if (current && depth === current.depth + 1 && (tag === "loc" || tag === "lastmod")) field = tag
+      },
+      ontext(text) {
+        if (current && field) current[field] += text
+      },
+      onclosetag(name) {
+        depth--
+        field = null
+        if (current && depth < current.depth) {
+          const loc = current.loc.trim()
+          const lastmod = Date.parse(current.lastmod.trim())
+          if (loc) entries.push({ loc, lastmod: Number.isNaN(lastmod) ? null : lastmod })
+          current = null
+          if (entries.length >= 2 * MAX_ENTRIES_PER_FILE) entries = newestFirst(entries).slice(0, MAX_ENTRIES_PER_FILE)
+        }
+      },
+    },
+    { xmlMode: true }
+  )
+
+  // Chunk boundaries can split a multi-byte character
+  const decoder = new StringDecoder("utf8")
+  let bytes = 0
+  for await (const chunk of decodedChunks(body)) {
+    bytes += chunk.length
+    if (bytes > MAX_SITEMAP_BYTES) throw new Error(`Sitemap ${url} is larger than ${MAX_SITEMAP_BYTES} bytes`)
+    parser.write(decoder.write(chunk))
+  }
+  parser.end(decoder.end())
+
+  if (!kind) throw new Error(`Sitemap ${url} has no <urlset> or <sitemapindex>`)
+  return { kind, entries: newestFirst(entries).slice(0, MAX_ENTRIES_PER_FILE) }
+}
+
+/**
+ * Fetches one sitemap file. Only the parsed entries are cached, since
+ * sitemaps can run to tens of megabytes; refreshes are conditional and never
+ * more frequent than `minRefreshMs`.
+ */
+async function loadSitemap(url: string, options: SitemapOptions): Promise<SitemapFile> {
+  const name = cacheName(url)
+  const cached = await readJSON<SitemapFile | null>(name, null)
+  const now = Date.now()
+  if (cached && now < cached.fetchedAt + (options.minRefreshMs || 0)) return cached
+
+  const headers: Record<string, string> = { ...options.headers }
+  if (cached?.etag) headers["If-None-Match"] = cached.etag
+  if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified
+
+  // Child sitemap URLs come from the index's content, so they are held to public hosts like any other link
+  const response = await fetchPublic(url, { headers, cache: "no-store", signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+  if (response.status === 304 && cached) {
+    const revalidated = { ...cached, fetchedAt: now }
+    await writeJSON(name, revalidated)
+    return revalidated
+  }
+  if (!response.ok || !response.body) throw new Error(`Request failed with status ${response.status}`)
+
+  const file: SitemapFile = {
+    url,
+    ...(await parseSitemap(response.body as WebReadableStream<Uint8Array>, url)),
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+    fetchedAt: now,
+  }
+  await writeJSON(name, file)
+  return file
+}
+
+/**
+ * The page URLs a sitemap lists, most recently modified first. Sitemap
+ * indexes are followed up to `maxDepth` levels, newest child first.
+ */
+export async function readSitemap(url: string, options: SitemapOptions = {}): Promise<SitemapEntry[]> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH
+  const visited = new Set<string>()
+
+  const walk = async (sitemapUrl: string, depth: number): Promise<SitemapEntry[]> => {
+    if (visited.has(sitemapUrl)) return []
+    visited.add(sitemapUrl)
+
+    const file = await loadSitemap(sitemapUrl, options)
+    if (file.kind === "urlset") return file.entries
+    if (depth >= maxDepth) return []
+
+    const entries: SitemapEntry[] = []
+    // One child at a time keeps memory and upstream load flat
+    for (const child of file.entries.slice(0, MAX_CHILD_SITEMAPS)) {
+      try {
+        entries.push(...(await walk(child.loc, depth + 1)))
+      } catch (error) {
+        console.error(`Error fetching sitemap ${child.loc}:`, error)
+      }
+    }
+    return entries
+  }
+
+  return newestFirst(await walk(url, 0)).slice(0, options.maxUrls ?? DEFAULT_MAX_URLS)
+}
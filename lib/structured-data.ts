@@ -0,0 +1,170 @@
+import type * as cheerio from "cheerio"
+import type { ProductRating } from "./types"
+
+export interface StructuredProduct {
+  title?: string
+  description?: string
+  image?: string
+  price?: number
+  /** A list or strikethrough price above `price` */
+  originalPrice?: number
+  /** ISO 4217 code */
+  currency?: string
+  availability?: string
+  brand?: string
+  sku?: string
+  rating?: ProductRating
+}
+
+/** A JSON-LD object as the page wrote it; every property still needs checking */
+export type JsonLdNode = Record<string, unknown>
+
+export function isJsonLdNode(value: unknown): value is JsonLdNode {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+// JSON-LD allows one value or a list wherever a property repeats
+function list(value: unknown): unknown[] {
+  if (value === undefined || value === null || value === "") return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/** Every JSON-LD node on the page, with `@graph` members flattened out */
+export function jsonLdNodes($: cheerio.CheerioAPI): JsonLdNode[] {
+  const nodes: JsonLdNode[] = []
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      const data: unknown = JSON.parse($(script).text())
+      for (const node of list(data).filter(isJsonLdNode)) {
+        nodes.push(node, ...list(node["@graph"]).filter(isJsonLdNode))
+      }
+    } catch {}
+  })
+  return nodes
+}
+
+export function hasType(node: JsonLdNode | undefined, pattern: RegExp): boolean {
+  return list(node?.["@type"]).some((type) => typeof type === "string" && pattern.test(type))
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === "number") return String(value)
+  if (typeof value !== "string") return undefined
+  return value.replace(/\s+/g, " ").trim() || undefined
+}
+
+function number(value: unknown): number | undefined {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value ?? "").replace(/,/g, ""))
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+// "https://schema.org/InStock" -> "In Stock"
+function availabilityLabel(value: unknown): string | undefined {
+  return text(value)
+    ?.replace(/^https?:\/\/schema\.org\//i, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+}
+
+function nameOf(value: unknown): string | undefined {
+  if (Array.isArray(value)) return nameOf(value[0])
+  return isJsonLdNode(value) ? text(value.name) : text(value)
+}
+
+function imageOf(value: unknown): string | undefined {
+  if (Array.isArray(value)) return imageOf(value[0])
+  return isJsonLdNode(value) ? text(value.url ?? value.contentUrl) : text(value)
+}
+
+function fromJsonLd($: cheerio.CheerioAPI): StructuredProduct {
+  const node = jsonLdNodes($).find((candidate) => hasType(candidate, /^(Product|IndividualProduct|ProductModel)$/))
+  if (!node) return {}
+
+  // Offers may be one Offer, a list of them or an AggregateOffer with a price range
+  const offers = list(node.offers).filter(isJsonLdNode)
+  const offer = offers.find((candidate) => number(candidate.price ?? candidate.lowPrice) !== undefined) || offers[0]
+  const specifications = list(offer?.priceSpecification).filter(isJsonLdNode)
+  const isListPrice = (candidate: JsonLdNode) => /StrikethroughPrice|ListPrice|SRP|MSRP/.test(String(candidate.priceType || ""))
+  const specification = specifications.find((candidate) => !isListPrice(candidate))
+  const rating = isJsonLdNode(node.aggregateRating) ? node.aggregateRating : undefined
+  const ratingValue = number(rating?.ratingValue)
+
+  return {
+    title: text(node.name),
+    description: text(node.description),
+    image: imageOf(node.image),
+    price: number(offer?.price ?? offer?.lowPrice ?? specification?.price),
+    originalPrice: number(specifications.find(isListPrice)?.price),
+    currency: text(offer?.priceCurrency ?? specification?.priceCurrency),
+    availability: availabilityLabel(offer?.availability),
+    brand: nameOf(node.brand),
+    sku: text(node.sku ?? node.mpn),
+    rating: ratingValue ? { value: ratingValue, count: number(rating?.reviewCount ?? rating?.ratingCount) ?? null } : undefined,
+  }
+}
+
+function fromMicrodata($: cheerio.CheerioAPI): StructuredProduct {
+  const scope = $('[itemscope][itemtype*="schema.org/Product"]').first()
+  if (!scope.length) return {}
+
+  // Offer and rating props live in nested scopes; the product's own ones must not come from a nested brand or offer
+  const prop = (name: string, own = false) => {
+    const element = scope
+      .find(`[itemprop~="${name}"]`)
+      .filter((_, candidate) => !own || $(candidate).parent().closest("[itemscope]").is(scope))
+      .first()
+    if (!element.length) return undefined
+    return text(element.attr("content") ?? element.attr("href") ?? element.attr("src") ?? element.text())
+  }
+  const brand = scope.find('[itemprop~="brand"]').first()
+  const ratingValue = number(prop("ratingValue"))
+
+  return {
+    title: prop("name", true),
+    description: prop("description", true),
+    image: prop("image", true),
+    price: number(prop("price") ?? prop("lowPrice")),
+    currency: prop("priceCurrency"),
+    availability: availabilityLabel(prop("availability")),
+    brand: text(brand.find('[itemprop~="name"]').first().text()) ?? text(brand.attr("content") ?? brand.text()),
+    sku: prop("sku", true),
+    rating: ratingValue ? { value: ratingValue, count: number(prop("reviewCount") ?? prop("ratingCount")) ?? null } : undefined,
+  }
+}
+
+function fromOpenGraph($: cheerio.CheerioAPI): StructuredProduct {
+  const meta = (...properties: string[]) => {
+    for (const property of properties) {
+      const value = text($(`meta[property="${property}"]`).attr("content"))
+      if (value) return value
+    }
+    return undefined
+  }
+
+  return {
+    price: number(meta("product:sale_price:amount", "product:price:amount", "og:price:amount")),
+    originalPrice: meta("product:sale_price:amount") ? number(meta("product:price:amount")) : undefined,
+    currency: meta("product:sale_price:currency", "product:price:currency", "og:price:currency"),
+    availability: availabilityLabel(meta("product:availability", "og:availability")),
+    brand: meta("product:brand"),
+    sku: meta("product:retailer_item_id"),
+  }
+}
+
+/**
+ * Product facts the page declares in schema.org JSON-LD, microdata or
+ * Open Graph product tags, in that order of preference per field.
+ */
+export function structuredProduct($: cheerio.CheerioAPI): StructuredProduct {
+  const sources = [fromJsonLd($), fromMicrodata($), fromOpenGraph($)]
+  const fields: Record<string, unknown> = {}
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== undefined && fields[key] === undefined) fields[key] = value
+    }
+  }
+  const merged = fields as StructuredProduct
+  // Prefer the currency stated next to the price that was used
+  const priced = sources.find((source) => source.price !== undefined)
+  if (priced?.currency) merged.currency = priced.currency
+  return merged
+}
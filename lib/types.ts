@@ -0,0 +1,61 @@
+import type { PriceTrend } from "./price-history"
+
+export interface RelatedSource {
+  domain: string
+  link: string
+  title: string
+}
+
+export interface NewsItem {
+  title: string
+  link: string
+  /** Sanitized HTML body */
+  description: string
+  /** Plain-text excerpt of the description */
+  summary?: string
+  pubDate: string
+  guid: string
+  image?: string
+  domain: string
+  needsImage?: boolean
+  /** Category labels exactly as the feed sent them */
+  tags?: string[]
+  /** Topic ids from the shared taxonomy in lib/categories.ts */
+  categories?: string[]
+  /** Other outlets that ran the same story */
+  alsoCoveredBy?: RelatedSource[]
+}
+
+export interface ProductRating {
+  value: number
+  count: number | null
+}
+
+export interface Product {
+  /** First 16 hex digits of the SHA-1 of the product URL */
+  id: string
+  title: string
+  description: string
+  image: string
+  /**
+   * Formatted from `amount` and `currency` (e.g. "৳ 1,23,456"); the store's own
+   * text when no amount could be read, and "Price not available" when there is none
+   */
+  price: string
+  amount?: number
+  /** The pre-discount price, when the page shows one */
+  originalAmount?: number
+  /** ISO 4217 code, when the page declares one */
+  currency?: string
+  /** Stock status as the store states it, e.g. "In Stock" */
+  availability?: string
+  brand?: string
+  sku?: string
+  rating?: ProductRating
+  /** The page's `<lastmod>` in its sitemap */
+  updatedAt?: string
+  url: string
+  domain: string
+  /** Added to /api/product listings once the product has a recorded price */
+  priceTrend?: PriceTrend
+}
@@ -0,0 +1,128 @@
+"use client"
+import { useSyncExternalStore } from "react"
+import { emptyState, mergeStates, normalizeState, type ReadingState, type SavedItem } from "./reading-state"
+
+const STORAGE_KEY = "bd-news:reading-state"
+const SYNC_CODE_KEY = "bd-news:sync-code"
+const SYNC_DELAY_MS = 2000
+const SERVER_SNAPSHOT = emptyState()
+
+let state: ReadingState | null = null
+let syncTimer: ReturnType<typeof setTimeout> | null = null
+let pulled = false
+const listeners = new Set<() => void>()
+
+function current(): ReadingState {
+  if (!state) {
+    try {
+      state = normalizeState(JSON.parse(localStorage.getItem(STORAGE_KEY) || "null"))
+    } catch {
+      state = emptyState()
+    }
+  }
+  return state
+}
+
+function publish(next: ReadingState, push = true) {
+  state = next
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch {}
+  listeners.forEach((listener) => listener())
+  if (push) scheduleSync()
+}
+
+export function getSyncCode(): string | null {
+  try {
+    return localStorage.getItem(SYNC_CODE_KEY)
+  } catch {
+    return null
+  }
+}
+
+/** Pushes the local state to the server and adopts the merge of every synced browser */
+export async function syncNow(): Promise<void> {
+  const code = getSyncCode()
+  if (!code) return
+
+  const response = await fetch(`/api/sync/${code}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ state: current() }),
+  })
+  if (!response.ok) throw new Error(`Sync failed with ${response.status}`)
+  const data = await response.json()
+  publish(mergeStates(current(), normalizeState(data.state)), false)
+}
+
+function scheduleSync() {
+  if (syncTimer || !getSyncCode()) return
+  syncTimer = setTimeout(() => {
+    syncTimer = null
+    syncNow().catch((err) => console.error("Error syncing reading state:", err))
+  }, SYNC_DELAY_MS)
+}
+
+export function setSyncCode(code: string | null) {
+  try {
+    if (code) localStorage.setItem(SYNC_CODE_KEY, code)
+    else localStorage.removeItem(SYNC_CODE_KEY)
+  } catch {}
+  listeners.forEach((listener) => listener())
+  syncNow().catch((err) => console.error("Error syncing reading state:", err))
+}
+
+export function newSyncCode(): string {
+  return crypto.randomUUID().replace(/-/g, "")
+}
+
+// Other tabs write the same key; pick their changes up
+function onStorage(event: StorageEvent) {
+  if (event.key !== STORAGE_KEY) return
+  state = null
+  listeners.forEach((listener) => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  if (listeners.size === 1) window.addEventListener("storage", onStorage)
+  if (!pulled) {
+    pulled = true
+    syncNow().catch((err) => console.error("Error syncing reading state:", err))
+  }
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) window.removeEventListener("storage", onStorage)
+  }
+}
+
+export function markRead(key: string) {
+  const previous = current()
+  if (!key || previous.read[key]) return
+  publish(normalizeState({ ...previous, read: { ...previous.read, [key]: Date.now() } }))
+}
+
+export function toggleSaved(item: Omit<SavedItem, "savedAt">) {
+  const previous = current()
+  const saved = { ...previous.saved }
+  const removed = { ...previous.removed }
+
+  if (saved[item.key]) {
+    delete saved[item.key]
+    removed[item.key] = Date.now()
+  } else {
+    saved[item.key] = { ...item, savedAt: Date.now() }
+    delete removed[item.key]
+  }
+  publish(normalizeState({ ...previous, saved, removed }))
+}
+
+/** Bookmarks and read marks for this browser, kept in localStorage and optionally synced */
+export function useReadingState() {
+  const snapshot = useSyncExternalStore(subscribe, current, () => SERVER_SNAPSHOT)
+  return {
+    state: snapshot,
+    isRead: (key: string) => !!snapshot.read[key],
+    isSaved: (key: string) => !!snapshot.saved[key],
+  }
+}
@@ -0,0 +1,113 @@
+import { isTag, type AnyNode, type Element } from "domhandler"
+
+/**
+ * Evaluates the XPath subset that browser dev tools produce when copying an
+ * element's path: `/` and `//` steps over element names or `*`, with
+ * predicates `[n]`, `[last()]`, `[@attr]`, `[@attr="value"]` and
+ * `[contains(@attr, "value")]`. Anything else throws an XPathError.
+ */
+
+type Predicate =
+  | { type: "position"; position: number }
+  | { type: "last" }
+  | { type: "attribute"; name: string; value?: string; contains?: boolean }
+
+interface Step {
+  descendant: boolean
+  name: string
+  predicates: Predicate[]
+}
+
+export class XPathError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Unsupported XPath ${expression}: ${reason}`)
+    this.name = "XPathError"
+  }
+}
+
+const STEP_PATTERN = /^(\/\/?)([A-Za-z_][\w.-]*|\*)((?:\[(?:[^\]"']|"[^"]*"|'[^']*')*\])*)/
+const PREDICATE_PATTERN = /\[((?:[^\]"']|"[^"]*"|'[^']*')*)\]/g
+const parsed = new Map<string, Step[]>()
+
+function parsePredicate(expression: string, source: string): Predicate {
+  const text = source.trim()
+  if (/^\d+$/.test(text)) return { type: "position", position: Number(text) }
+  if (text === "last()") return { type: "last" }
+
+  const attribute = text.match(/^@([\w:.-]+)(?:\s*=\s*(["'])(.*)\2)?$/)
+  if (attribute) return { type: "attribute", name: attribute[1], value: attribute[2] ? attribute[3] : undefined }
+
+  const contains = text.match(/^contains\(\s*@([\w:.-]+)\s*,\s*(["'])(.*)\2\s*\)$/)
+  if (contains) return { type: "attribute", name: contains[1], value: contains[3], contains: true }
+
+  throw new XPathError(expression, `predicate [${source}]`)
+}
+
+function parse(expression: string): Step[] {
+  const cached = parsed.get(expression)
+  if (cached) return cached
+
+  const steps: Step[] = []
+  // A relative path starts from the document, like an absolute one
+  let rest = expression.trim().startsWith("/") ? expression.trim() : `/${expression.trim()}`
+  while (rest) {
+    const match = rest.match(STEP_PATTERN)
+    if (!match) throw new XPathError(expression, `near "${rest}"`)
+    steps.push({
+      descendant: match[1] === "//",
+      name: match[2].toLowerCase(),
+      predicates: [...match[3].matchAll(PREDICATE_PATTERN)].map((predicate) => parsePredicate(expression, predicate[1])),
+    })
+    rest = rest.slice(match[0].length)
+  }
+
+  parsed.set(expression, steps)
+  return steps
+}
+
+function childElements(node: AnyNode): Element[] {
+  return "children" in node ? node.children.filter(isTag) : []
+}
+
+function selfAndDescendants(node: AnyNode, into: AnyNode[] = []): AnyNode[] {
+  into.push(node)
+  for (const child of childElements(node)) selfAndDescendants(child, into)
+  return into
+}
+
+function applyPredicate(elements: Element[], predicate: Predicate): Element[] {
+  switch (predicate.type) {
+    case "position":
+      return elements.slice(predicate.position - 1, predicate.position)
+    case "last":
+      return elements.slice(-1)
+    case "attribute":
+      return elements.filter((element) => {
+        const value = element.attribs[predicate.name]
+        if (value === undefined) return false
+        if (predicate.value === undefined) return true
+        return predicate.contains ? value.includes(predicate.value) : value === predicate.value
+      })
+  }
+}
+
+/** The elements `expression` selects under `root` (usually `$.root()[0]`), in document order */
+export function selectXPath(root: AnyNode, expression: string): Element[] {
+  const steps = parse(expression)
+  const order = new Map(selfAndDescendants(root).map((node, index) => [node, index]))
+  let context: AnyNode[] = [root]
+
+  for (const step of steps) {
+    const parents = step.descendant ? context.flatMap((node) => selfAndDescendants(node)) : context
+    const selected = new Set<Element>()
+    for (const parent of new Set(parents)) {
+      // Positions count among the matching children of each parent, as in XPath
+      let elements = childElements(parent).filter((element) => step.name === "*" || element.name === step.name)
+      for (const predicate of step.predicates) elements = applyPredicate(elements, predicate)
+      elements.forEach((element) => selected.add(element))
+    }
+    context = [...selected].sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0))
+  }
+
+  return context as Element[]
+}
@@ -0,0 +1,12 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+// The root layout needs the path to pick the page language for <html lang>
+export function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers)
+  headers.set("x-pathname", request.nextUrl.pathname)
+  return NextResponse.next({ request: { headers } })
+}
+
+export const config = {
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico|placeholder.svg|icon.svg|sw.js|manifest.webmanifest).*)"],
+}
@@ -7,13 +7,24 @@ const nextConfig: NextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
-  images: {
-    remotePatterns: [
+  async headers() {
+    return [
       {
-        protocol: "https",
-        hostname: "**",
-        pathname: "/**",
+        // Browsers must always revalidate the worker script, or updates never reach them
+        source: "/sw.js",
+        headers: [
+          { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+          { key: "Content-Type", value: "application/javascript; charset=utf-8" },
+        ],
       },
+    ];
+  },
+  images: {
+    // Remote images are served through /api/image, which only proxies registered sources
+    remotePatterns: [],
+    localPatterns: [
+      { pathname: "/api/image" },
+      { pathname: "/placeholder.svg" },
     ],
   },
 };
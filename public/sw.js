@@ -0,0 +1,128 @@
+// Offline support: the app shell, recent feed pages, thumbnails and opened articles.
+// Bump VERSION when the caching rules change so old caches are dropped on activate.
+const VERSION = "v2"
+const STATIC_CACHE = `static-${VERSION}`
+const PAGE_CACHE = `pages-${VERSION}`
+const FEED_CACHE = `feeds-${VERSION}`
+const IMAGE_CACHE = `images-${VERSION}`
+const ARTICLE_CACHE = `articles-${VERSION}`
+
+const PRECACHE_URLS = ["/placeholder.svg", "/icon.svg", "/manifest.webmanifest"]
+const MAX_PAGES = 20
+// Later feed pages kept per language and category (and for the videos listing), besides the first
+const FEED_PAGES_PER_LIST = 5
+const MAX_IMAGES = 300
+const MAX_ARTICLES = 100
+// Added to every cached response; the UI shows it in the "showing cached news from …" banner
+const CACHED_AT_HEADER = "X-Cached-At"
+// Set by /api/image when it answers with the placeholder; those answers may be transient, so they are never kept
+const IMAGE_FALLBACK_HEADER = "X-Image-Fallback"
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(STATIC_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .catch(() => {})
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  const current = [STATIC_CACHE, PAGE_CACHE, FEED_CACHE, IMAGE_CACHE, ARTICLE_CACHE]
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// Rebuilding the response also drops the `redirected` flag, which browsers refuse for navigations
+async function stamp(response) {
+  const headers = new Headers(response.headers)
+  headers.set(CACHED_AT_HEADER, new Date().toISOString())
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers })
+}
+
+// Cache keys come back in insertion order, and entries are re-inserted on refresh, so the first are the oldest
+async function trim(cacheName, max, group = () => "") {
+  const cache = await caches.open(cacheName)
+  const counts = new Map()
+  for (const request of (await cache.keys()).reverse()) {
+    const name = group(request)
+    const count = (counts.get(name) || 0) + 1
+    counts.set(name, count)
+    if (count > max) await cache.delete(request)
+  }
+}
+
+// The first page of a list gets a group of its own, so scrolling through later pages never evicts it
+function feedList(request) {
+  const url = new URL(request.url)
+  const page = url.searchParams.has("cursor") || url.searchParams.has("offset") ? "more" : "first"
+  return [url.pathname, url.searchParams.get("language"), url.searchParams.get("category"), page].join(":")
+}
+
+async function networkFirst(request, cacheName, onStored) {
+  const cache = await caches.open(cacheName)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const copy = await stamp(response.clone())
+      await cache.delete(request)
+      await cache.put(request, copy)
+      onStored()
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request, cacheName, max) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok && !response.headers.has(IMAGE_FALLBACK_HEADER)) {
+    await cache.put(request, response.clone())
+    if (max) trim(cacheName, max)
+  }
+  return response
+}
+
+async function navigate(request) {
+  try {
+    return await networkFirst(request, PAGE_CACHE, () => trim(PAGE_CACHE, MAX_PAGES))
+  } catch (error) {
+    // A page never opened online falls back to the most recent cached one, which still boots the app
+    const cache = await caches.open(PAGE_CACHE)
+    const keys = await cache.keys()
+    if (keys.length) return cache.match(keys[keys.length - 1])
+    throw error
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(navigate(request))
+  } else if (url.pathname.startsWith("/_next/static/") || PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE))
+  } else if (url.pathname === "/api/rss" || url.pathname === "/api/videos") {
+    event.respondWith(networkFirst(request, FEED_CACHE, () => trim(FEED_CACHE, FEED_PAGES_PER_LIST, feedList)))
+  } else if (url.pathname === "/api/image") {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGES))
+  } else if (url.pathname === "/api/article") {
+    event.respondWith(networkFirst(request, ARTICLE_CACHE, () => trim(ARTICLE_CACHE, MAX_ARTICLES)))
+  }
+})